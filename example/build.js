@@ -1,11 +1,12 @@
 import { TestRunner } from "ergotest";
-import path from "node:path";
 
-const args = process.argv.slice(2);
-const files = args.map(arg => path.resolve(process.cwd(), arg));
+const patterns = process.argv.slice(2);
 
 process.stdout.write("Running tests: ");
-const result = await TestRunner.create().runInChildProcessAsync(files, { onTestCaseResult: reportProgress });
+const result = await TestRunner.create().runInChildProcessAsync(patterns, {
+  glob: true,
+  onTestCaseResult: reportProgress,
+});
 console.log("\n" + result.render("\n") + "\n");
 
 function reportProgress(testCase) {
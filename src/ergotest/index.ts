@@ -5,3 +5,5 @@ export { TestRunner } from "./runner/test_runner.js";
 export { TestResult, TestSuiteResult, TestCaseResult, RunResult, TestStatus, TestMark } from "./results/test_result.js";
 export type { TestStatusValue, TestMarkValue, RenderErrorFn } from "./results/test_result.js";
 export { TestRenderer } from "./results/test_renderer.js";
+export type { ConfigSchema, ConfigType } from "./tests/config_schema.js";
+export type { FixtureFn, FixtureDefinitions, FixtureValues } from "./tests/fixtures.js";
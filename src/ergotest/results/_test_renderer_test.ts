@@ -3,8 +3,10 @@ import {
 	assert,
 	createFail,
 	createPass,
+	createNotRun,
 	createSkip,
 	createSuite, createTimeout,
+	createTodo,
 	describe,
 	it,
 } from "../../util/tests.js";
@@ -28,6 +30,8 @@ const summaryColor = Colors.brightWhite.dim;
 const summaryFailColor = Colors.brightRed;
 const summaryTimeoutColor = Colors.purple;
 const summarySkipColor = Colors.cyan;
+const summaryNotRunColor = Colors.yellow;
+const summaryTodoColor = Colors.blue;
 const summaryPassColor = Colors.green;
 
 const testFailColor = Colors.brightRed;
@@ -92,6 +96,64 @@ export default describe(() => {
 			);
 		});
 
+		it("renders tests that didn't run, and leaves them out of the average test time", () => {
+			const result = createSuite({ tests: [ createPass(), createNotRun(), createNotRun() ]});
+
+			assert.equal(TestRenderer.create().renderSummary(result, 1000),
+				summaryColor("(") +
+				summaryNotRunColor("2 not run") +
+				summaryColor("; ") +
+				summaryPassColor("1 passed") +
+				summaryColor("; ") +
+				summaryColor("1000.0ms avg.") +
+				summaryColor(")")
+			);
+		});
+
+		it("renders todo tests and suites, and leaves them out of the average test time", () => {
+			const result = createSuite({ tests: [
+				createPass(),
+				createTodo(),
+				createSuite({ mark: TestMark.todo }),
+			]});
+
+			assert.equal(TestRenderer.create().renderSummary(result, 1000),
+				summaryColor("(") +
+				summaryTodoColor("2 todo") +
+				summaryColor("; ") +
+				summaryPassColor("1 passed") +
+				summaryColor("; ") +
+				summaryColor("1000.0ms avg.") +
+				summaryColor(")")
+			);
+		});
+
+		it("renders cancellation", () => {
+			const result = createSuite({ cancelled: true, tests: [ createPass() ]});
+
+			assert.equal(TestRenderer.create().renderSummary(result),
+				summaryColor("(") +
+				Colors.brightYellow("cancelled") +
+				summaryColor("; ") +
+				summaryPassColor("1 passed") +
+				summaryColor(")")
+			);
+		});
+
+		it("renders seed when tests ran in random order", () => {
+			const result = createSuite({ seed: 12345, tests: [ createPass() ]});
+
+			assert.equal(TestRenderer.create().renderSummary(result, 1000),
+				summaryColor("(") +
+				summaryPassColor("1 passed") +
+				summaryColor("; ") +
+				summaryColor("1000.0ms avg.") +
+				summaryColor("; ") +
+				summaryColor("seed 12345") +
+				summaryColor(")")
+			);
+		});
+
 		it("handles empty results gracefully", () => {
 			assert.equal(TestRenderer.create().renderSummary(createSuite(), 1000),
 				summaryColor("(") +
@@ -109,6 +171,8 @@ export default describe(() => {
 			assert.equal(renderAsCharacters(createFail()), Colors.brightRed.inverse("X"), "fail");
 			assert.equal(renderAsCharacters(createSkip()), Colors.cyan.dim("_"), "skip");
 			assert.equal(renderAsCharacters(createTimeout()), Colors.purple.inverse("!"), "timeout");
+			assert.equal(renderAsCharacters(createNotRun()), Colors.yellow.dim("-"), "not run");
+			assert.equal(renderAsCharacters(createTodo()), Colors.blue.dim("?"), "todo");
 		});
 
 		it("renders multiple results", () => {
@@ -155,6 +219,14 @@ export default describe(() => {
 			assert.equal(renderAsSingleLines(result), testPassColor("passed") + " my name");
 		});
 
+		it("expected failure", () => {
+			const result = createPass({ name: "my name", expectedFailure: "my error" });
+			assert.equal(
+				renderAsSingleLines(result),
+				testPassColor("passed") + " " + summaryColor("(expected failure)") + " my name",
+			);
+		});
+
 		it("skip", () => {
 			const result = createSkip({ name: "my name" });
 			assert.equal(renderAsSingleLines(result), testSkipColor("skipped") + " my name");
@@ -209,6 +281,13 @@ export default describe(() => {
 				})), renderAsSingleLines(createSkip()));
 			});
 
+			it("doesn't render beforeEach() / afterEach() when they’re all skipped AND the test is todo", () => {
+				assert.equal(renderAsSingleLines(createTodo({
+					beforeEach: [ createSkip() ],
+					afterEach: [ createSkip() ],
+				})), renderAsSingleLines(createTodo()));
+			});
+
 			it("renders detailed beforeEach() / afterEach() as well as the test detail when they don't all pass", () => {
 				const result = createPass({
 					name: "my name",
@@ -268,6 +347,19 @@ export default describe(() => {
 
 			});
 
+			it("renders fixtures after beforeEach() / afterEach() when they don't all pass", () => {
+				assert.equal(renderAsSingleLines(createPass({
+					name: "my name",
+					afterEach: [ createPass({ name: "after" }) ],
+					fixtures: [ createFail({ name: "fixture" }) ],
+				})),
+					testFailColor("failed") + " my name"
+					+ `\n  ${summaryColor("-->")}  ${testPassColor("passed")} the test itself`
+					+ `\n  ${summaryColor("-->")}  ${testPassColor("passed")} after`
+					+ `\n  ${summaryColor("-->")}  ${testFailColor("failed")} fixture`
+				);
+			});
+
 		});
 
 	});
@@ -305,6 +397,55 @@ export default describe(() => {
 			assert.equal(renderAsMultipleLines([]), "");
 		});
 
+		it("renders output of failing and timed out tests", () => {
+			const fail = createFail({ name: "my name", output: "my output\n" });
+			const timeout = createTimeout({ name: "my name", output: "my output\n" });
+			const renderer = TestRenderer.create();
+
+			assert.equal(renderAsMultipleLines(fail),
+				renderer.renderNameOnMultipleLines([ "my name" ]) + "\n\n"
+				+ renderer.renderStatusWithMultiLineDetails(fail.it) + "\n\n"
+				+ headerColor("Output:") + "\n"
+				+ "my output\n",
+				"fail",
+			);
+			assert.equal(renderAsMultipleLines(timeout),
+				renderer.renderNameOnMultipleLines([ "my name" ]) + "\n\n"
+				+ renderer.renderStatusWithMultiLineDetails(timeout.it) + "\n\n"
+				+ headerColor("Output:") + "\n"
+				+ "my output\n",
+				"timeout",
+			);
+		});
+
+		it("renders warnings, even for passing tests", () => {
+			const pass = createPass({ name: "my name", output: "my output\n", warnings: [ "warning 1", "warning 2" ] });
+			const renderer = TestRenderer.create();
+
+			assert.equal(renderAsMultipleLines(pass),
+				renderer.renderNameOnMultipleLines([ "my name" ]) + "\n\n"
+				+ renderer.renderStatusWithMultiLineDetails(pass.it) + "\n\n"
+				+ headerColor("Warnings:") + "\n"
+				+ "warning 1\n\nwarning 2",
+			);
+		});
+
+		it("suppresses output of passing tests, and doesn't render empty output", () => {
+			assert.equal(
+				renderAsMultipleLines(createPass({ output: "my output" })),
+				renderAsMultipleLines(createPass()),
+				"pass",
+			);
+
+			const fail = createFail({ output: "" });
+			const renderer = TestRenderer.create();
+			assert.equal(renderAsMultipleLines(fail),
+				renderer.renderNameOnMultipleLines([]) + "\n\n"
+				+ renderer.renderStatusWithMultiLineDetails(fail.it),
+				"empty output",
+			);
+		});
+
 		describe("beforeEach/afterEach", () => {
 
 			it("doesn't render passing beforeEach() / afterEach() when they all pass", () => {
@@ -326,6 +467,13 @@ export default describe(() => {
 				})), renderAsMultipleLines(createSkip()));
 			});
 
+			it("doesn't render beforeEach() / afterEach() when they’re all skipped AND the test is todo", () => {
+				assert.equal(renderAsMultipleLines(createTodo({
+					beforeEach: [ createSkip() ],
+					afterEach: [ createSkip() ],
+				})), renderAsMultipleLines(createTodo()));
+			});
+
 			it("renders detailed beforeEach() / afterEach() as well as the test detail when they don't all pass", () => {
 				const after1 = createSkip({ name: "after 1" });
 				const after2 = createFail({ name: "after 2" });
@@ -360,6 +508,31 @@ export default describe(() => {
 				);
 			});
 
+			it("renders output from beforeEach(), afterEach(), and the test after the test detail", () => {
+				const before = createPass({ name: "before", output: "before output\n" });
+				const after = createFail({ name: "after", output: "after output\n" });
+				const result = createPass({
+					name: "my name",
+					output: "test output\n",
+					beforeEach: [ before ],
+					afterEach: [ after ],
+				});
+
+				const renderer = TestRenderer.create();
+				assert.equal(renderAsMultipleLines(result),
+					renderer.renderNameOnMultipleLines(["my name"]) + "\n\n"
+					+ headerColor("»»» ") + headerColor("before") + "\n" + renderer.renderNameOnOneLine(["before"]) + "\n\n"
+					+ renderer.renderStatusWithMultiLineDetails(before.it) + "\n\n"
+					+ headerColor("»»» ") + headerColor("after") + "\n" + renderer.renderNameOnOneLine(["after"]) + "\n\n"
+					+ renderer.renderStatusWithMultiLineDetails(after.it) + "\n\n"
+					+ headerColor("»»» ") + headerColor("the test itself") + "\n" + renderer.renderNameOnOneLine(["my name"]) + "\n\n"
+					+ renderer.renderStatusWithMultiLineDetails(result.it) + "\n\n"
+					+ headerColor("Output:") + "\n"
+					+ "before output\ntest output\nafter output\n\n\n"
+					+ headerColor("«««")
+				);
+			});
+
 			it("renders all test detail even if one set of beforeEach or afterEach is passing", () => {
 				const before = createSkip({ name: "before" });
 				const after = createPass({ name: "after" });
@@ -403,6 +576,13 @@ export default describe(() => {
 			);
 		});
 
+		it("renders skip reasons", () => {
+			assert.equal(
+				renderSingleLineMark(createSkip({ mark: TestMark.skip, name: "my name", reason: "my reason" })),
+				Colors.brightCyan(".skip") + " my name " + summaryColor("(my reason)"),
+			);
+		});
+
 		it("renders multiple results on consecutive lines", () => {
 			const results = [
 				createPass({ name: "skip 1", mark: TestMark.skip }),
@@ -500,6 +680,8 @@ export default describe(() => {
 			assert.equal(render(TestStatus.fail), Colors.brightRed("failed"), "fail");
 			assert.equal(render(TestStatus.skip), Colors.brightCyan("skipped"), "skip");
 			assert.equal(render(TestStatus.timeout), Colors.brightPurple("timeout"), "timeout");
+			assert.equal(render(TestStatus.notRun), Colors.brightYellow("not run"), "not run");
+			assert.equal(render(TestStatus.todo), Colors.brightBlue("todo"), "todo");
 		});
 
 		function render(status: TestStatusValue): string {
@@ -515,14 +697,33 @@ export default describe(() => {
 			assert.equal(render(createPass()), Colors.green("passed"));
 		});
 
+		it("renders expected failure", () => {
+			assert.equal(
+				render(createPass({ expectedFailure: "my error" })),
+				Colors.green("passed") + " (expected failure): my error",
+			);
+		});
+
 		it("renders skip", () => {
 			assert.equal(render(createSkip()), Colors.brightCyan("skipped"));
 		});
 
+		it("renders skip reason", () => {
+			assert.equal(render(createSkip({ reason: "my reason" })), Colors.brightCyan("skipped") + ": my reason");
+		});
+
 		it("renders timeout", () => {
 			assert.equal(render(createTimeout({ timeout: 500 })), Colors.purple("Timed out after 500ms"));
 		});
 
+		it("renders not run", () => {
+			assert.equal(render(createNotRun()), Colors.brightYellow("not run"));
+		});
+
+		it("renders todo", () => {
+			assert.equal(render(createTodo()), Colors.brightBlue("todo"));
+		});
+
 		it("renders fail", () => {
 			assert.equal(
 				render(createFail({ error: "my error" })),
@@ -550,6 +751,7 @@ export default describe(() => {
 			assert.equal(render(TestMark.none), "(no mark)");
 			assert.equal(render(TestMark.skip), Colors.brightCyan(".skip"));
 			assert.equal(render(TestMark.only), Colors.brightCyan(".only"));
+			assert.equal(render(TestMark.todo), Colors.brightBlue(".todo"));
 		});
 
 		function render(mark: TestMarkValue): string {
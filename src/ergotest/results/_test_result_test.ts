@@ -6,14 +6,16 @@ import {
 	beforeEach,
 	createFail,
 	createPass,
+	createNotRun,
 	createSkip,
 	createSuite,
 	createTimeout,
+	createTodo,
 	describe,
 	it,
 } from "../../util/tests.js";
 import { AssertionError } from "node:assert";
-import { RunResult, TestCaseResult, TestMark, TestResult, TestStatus } from "./test_result.js";
+import { RunResult, TestCaseResult, TestMark, TestResult, TestStatus, TestSuiteResult } from "./test_result.js";
 import { renderError, TestRenderer } from "./test_renderer.js";
 
 export default describe(() => {
@@ -61,6 +63,16 @@ export default describe(() => {
 			assert.equal(only.mark, TestMark.only);
 		});
 
+		it("can be cancelled", () => {
+			assert.equal(createSuite().cancelled, false, "not specified");
+			assert.equal(createSuite({ cancelled: true }).cancelled, true, "cancelled");
+		});
+
+		it("has optional seed", () => {
+			assert.isUndefined(createSuite().seed, "not specified");
+			assert.equal(createSuite({ seed: 42 }).seed, 42, "specified");
+		});
+
 		it("can be compared using equals()", () => {
 			assert.dotEquals(createSuite({ name: "my name" }), createSuite({ name: "my name" }));
 			assert.notDotEquals(createSuite({ name: "my name" }), createSuite({ name: "different" }));
@@ -68,6 +80,12 @@ export default describe(() => {
 			assert.dotEquals(createSuite({ mark: TestMark.skip }), createSuite({ mark: TestMark.skip }));
 			assert.notDotEquals(createSuite({ mark: TestMark.skip }), createSuite({ mark: TestMark.only }));
 
+			assert.dotEquals(createSuite({ cancelled: true }), createSuite({ cancelled: true }));
+			assert.notDotEquals(createSuite({ cancelled: true }), createSuite({ cancelled: false }));
+
+			assert.dotEquals(createSuite({ seed: 42 }), createSuite({ seed: 42 }));
+			assert.notDotEquals(createSuite({ seed: 42 }), createSuite({ seed: 43 }));
+
 			assert.dotEquals(createSuite({ name: [ "parent", "child" ]}), createSuite({ name: [ "parent", "child" ]}));
 			assert.notDotEquals(createSuite({ name: [ "parent", "child" ]}), createSuite({ name: [ "parent", "different" ]}));
 
@@ -99,6 +117,40 @@ export default describe(() => {
 			);
 		});
 
+		it("merges several results into one", () => {
+			const shard1 = createSuite({
+				tests: [ createPass({ name: "test 1" }) ],
+				beforeAll: [ createPass({ name: "before 1" }) ],
+			});
+			const shard2 = createSuite({
+				tests: [ createFail({ name: "test 2" }), createPass({ name: "test 3" }) ],
+				afterAll: [ createPass({ name: "after 2" }) ],
+			});
+
+			assert.dotEquals(TestSuiteResult.merge([ shard1, shard2 ]), createSuite({
+				tests: [ createPass({ name: "test 1" }), createFail({ name: "test 2" }), createPass({ name: "test 3" }) ],
+				beforeAll: [ createPass({ name: "before 1" }) ],
+				afterAll: [ createPass({ name: "after 2" }) ],
+			}));
+		});
+
+		it("takes the name, filename, mark, and seed of merged results from the first result", () => {
+			const first = createSuite({ name: "first", filename: "/first", mark: TestMark.only, seed: 42 });
+			const second = createSuite({ name: "second", filename: "/second", mark: TestMark.skip, seed: 43 });
+
+			assert.dotEquals(TestSuiteResult.merge([ first, second ]), first);
+			assert.dotEquals(TestSuiteResult.merge([]), createSuite(), "no results");
+		});
+
+		it("marks merged results as cancelled if any of the results were cancelled", () => {
+			assert.equal(TestSuiteResult.merge([ createSuite(), createSuite() ]).cancelled, false, "none cancelled");
+			assert.equal(
+				TestSuiteResult.merge([ createSuite(), createSuite({ cancelled: true }) ]).cancelled,
+				true,
+				"one cancelled",
+			);
+		});
+
 	});
 
 
@@ -127,6 +179,18 @@ export default describe(() => {
 			);
 		});
 
+		it("renders tests with warnings along with errors", () => {
+			const fail = createFail();
+			const warning = createPass({ warnings: [ "my warning" ] });
+			const result = createSuite({ tests: [ createPass(), warning, fail ] });
+
+			const renderer = TestRenderer.create();
+			assert.equal(result.render(),
+				renderer.renderAsMultipleLines([ warning, fail ]) + "\n\n" +
+				renderer.renderSummary(result),
+			);
+		});
+
 		it("renders marks and summary without errors", () => {
 			const result = createSuite({ tests: [
 				createPass({ mark: TestMark.only }),
@@ -291,6 +355,17 @@ export default describe(() => {
 			assert.equal(timeout.afterEach, afterEach);
 		});
 
+		it("has optional fixture results", () => {
+			const fixtures = [
+				RunResult.pass({ name: [ "my_fixture" ] }),
+				RunResult.fail({ name: [ "my_failed_fixture" ], error: "my_error" }),
+			];
+
+			assert.equal(createPass().fixtures, [], "default");
+			assert.equal(createPass({ fixtures }).fixtures, fixtures);
+			assert.equal(createFail({ fixtures }).fixtures, fixtures);
+		});
+
 		it("has optional filename", () => {
 			const test = createPass({ filename: "my_filename" });
 			assert.equal(test.filename, "my_filename");
@@ -365,6 +440,55 @@ export default describe(() => {
 			assert.equal(onlyMark.mark, TestMark.only, "mark");
 		});
 
+		it("skipped tests have an optional reason, which can come from beforeEach()", () => {
+			assert.isUndefined(createSkip().skipReason, "no reason");
+			assert.equal(createSkip({ reason: "my reason" }).skipReason, "my reason", "it() reason");
+
+			const fromBeforeEach = createSkip({
+				beforeEach: [ createPass(), createSkip({ reason: "beforeEach reason" }) ],
+			});
+			assert.equal(fromBeforeEach.skipReason, "beforeEach reason", "beforeEach() reason");
+
+			assert.error(
+				() => createPass().skipReason,
+				"Attempted to retrieve skip reason from a test that wasn't skipped",
+			);
+		});
+
+		it("passing tests can have an expected failure", () => {
+			const result = createPass({ expectedFailure: "my error" });
+
+			assert.equal(result.status, TestStatus.pass, "status");
+			assert.equal(result.it.expectedFailure, "my error", "expected failure");
+			assert.isUndefined(createPass().it.expectedFailure, "no expected failure");
+		});
+
+		it("tests that didn't run have a name, status, and mark", () => {
+			const result = createNotRun({ name: "my name" });
+			const onlyMark = createNotRun({ mark: TestMark.only });
+
+			assert.equal(result.name, [ "my name" ], "name");
+			assert.equal(result.status, TestStatus.notRun, "status");
+			assert.equal(result.isNotRun(), true, "isNotRun()");
+			assert.equal(createPass().isNotRun(), false, "isNotRun() for passing test");
+
+			assert.equal(result.mark, TestMark.none, "mark");
+			assert.equal(onlyMark.mark, TestMark.only, "mark");
+		});
+
+		it("todo tests have a name, status, and mark", () => {
+			const result = createTodo({ name: "my name", mark: TestMark.todo });
+
+			assert.equal(result.name, [ "my name" ], "name");
+			assert.equal(result.status, TestStatus.todo, "status");
+			assert.equal(result.isTodo(), true, "isTodo()");
+			assert.equal(createSkip().isTodo(), false, "isTodo() for skipped test");
+			assert.equal(result.mark, TestMark.todo, "mark");
+
+			const withBeforeEach = createTodo({ beforeEach: [ createSkip() ], afterEach: [ createSkip() ] });
+			assert.equal(withBeforeEach.status, TestStatus.todo, "skipped beforeEach() and afterEach()");
+		});
+
 		it("timeout tests have name, status, mark, and timeout", () => {
 			const result = createTimeout({ name: "my name", timeout: 999 });
 			const noneMark = createTimeout({ mark: TestMark.none });
@@ -381,6 +505,33 @@ export default describe(() => {
 			assert.equal(onlyMark.mark, TestMark.only, "mark");
 		});
 
+		it("has output from beforeEach, afterEach, fixtures, and test", () => {
+			const noOutput = createPass();
+			const result = createFail({
+				output: "it\n",
+				beforeEach: [ createPass({ output: "before 1\n" }), createPass({ output: "before 2\n" }) ],
+				afterEach: [ createPass({ output: "after\n" }) ],
+				fixtures: [ createPass({ output: "fixture\n" }) ],
+			});
+
+			assert.equal(noOutput.output, "", "no output");
+			assert.equal(result.it.output, "it\n", "it() output");
+			assert.equal(result.output, "before 1\nbefore 2\nit\nafter\nfixture\n", "all output");
+		});
+
+		it("has warnings from beforeEach, afterEach, and test", () => {
+			const noWarnings = createPass();
+			const result = createPass({
+				warnings: [ "it" ],
+				beforeEach: [ createPass({ warnings: [ "before 1", "before 2" ] }), createPass() ],
+				afterEach: [ createPass({ warnings: [ "after" ] }) ],
+			});
+
+			assert.equal(noWarnings.warnings, [], "no warnings");
+			assert.equal(result.it.warnings, [ "it" ], "it() warnings");
+			assert.equal(result.warnings, [ "before 1", "before 2", "it", "after" ], "all warnings");
+		});
+
 		it("can be compared using equals()", () => {
 			// mark
 			assert.dotEquals(createPass({ mark: TestMark.only }), createPass({ mark: TestMark.only }));
@@ -409,6 +560,16 @@ export default describe(() => {
 				createPass({ afterEach: [ createPass(), createPass(), createPass() ]}),
 				createPass({ afterEach: [ createPass(), createSkip(), createPass() ]}),
 			);
+
+			// fixtures
+			assert.dotEquals(
+				createPass({ fixtures: [ createPass(), createPass() ]}),
+				createPass({ fixtures: [ createPass(), createPass() ]}),
+			);
+			assert.notDotEquals(
+				createPass({ fixtures: [ createPass(), createPass() ]}),
+				createPass({ fixtures: [ createPass(), createFail() ]}),
+			);
 		});
 
 	});
@@ -443,6 +604,13 @@ export default describe(() => {
 				],
 			}).status, TestStatus.fail, "afterEach()");
 
+			assert.equal(createPass({
+				fixtures: [
+					createPass(),
+					createFail(),
+				],
+			}).status, TestStatus.fail, "fixture");
+
 			assert.equal(createPass({
 				beforeEach: [ createFail() ],
 				afterEach: [ createPass() ],
@@ -662,6 +830,24 @@ export default describe(() => {
 				createTimeout({ name: "my name", timeout: 1 }),
 				createTimeout({ name: "my name", timeout: 2 }),
 			);
+
+			// skip reason
+			assertEqual(createSkip({ reason: "same" }), createSkip({ reason: "same" }));
+			assertNotEqual(createSkip({ reason: "same" }), createSkip({ reason: "different" }));
+			assertNotEqual(createSkip({ reason: "same" }), createSkip());
+
+			// expected failure
+			assertEqual(createPass({ expectedFailure: "same" }), createPass({ expectedFailure: "same" }));
+			assertNotEqual(createPass({ expectedFailure: "same" }), createPass({ expectedFailure: "different" }));
+			assertNotEqual(createPass({ expectedFailure: "same" }), createPass());
+
+			// output
+			assertEqual(createPass({ output: "same" }), createPass({ output: "same" }));
+			assertNotEqual(createPass({ output: "same" }), createPass({ output: "different" }));
+
+			// warnings
+			assertEqual(createPass({ warnings: [ "same" ] }), createPass({ warnings: [ "same" ] }));
+			assertNotEqual(createPass({ warnings: [ "same" ] }), createPass({ warnings: [ "different" ] }));
 		});
 
 		function assertEqual(left: TestCaseResult, right: TestCaseResult) {
@@ -824,6 +1010,22 @@ export default describe(() => {
 			], ".only");
 		});
 
+		it("distinguishes todo marks from skip marks", () => {
+			const suite = createSuite({ tests: [
+				createSkip({ name: "skipped test", mark: TestMark.skip }),
+				createTodo({ name: "todo test", mark: TestMark.todo }),
+				createSuite({ name: "todo suite", mark: TestMark.todo }),
+			]});
+
+			assert.equal(suite.allMatchingMarks(TestMark.todo), [
+				createTodo({ name: "todo test", mark: TestMark.todo }),
+				createSuite({ name: "todo suite", mark: TestMark.todo }),
+			], ".todo");
+			assert.equal(suite.allMatchingMarks(TestMark.skip), [
+				createSkip({ name: "skipped test", mark: TestMark.skip }),
+			], ".skip");
+		});
+
 		it("includes beforeAll() and afterAll() results in list of marks", () => {
 			const suite = createSuite({
 				mark: TestMark.only,
@@ -936,6 +1138,9 @@ export default describe(() => {
 				createTimeout(),
 				createTimeout(),
 				createTimeout(),
+				createNotRun(),
+				createTodo(),
+				createTodo(),
 			]});
 
 			assert.equal(suite.count(), {
@@ -943,7 +1148,9 @@ export default describe(() => {
 				[TestStatus.fail]: 2,
 				[TestStatus.skip]: 3,
 				[TestStatus.timeout]: 4,
-				total: 10,
+				[TestStatus.notRun]: 1,
+				[TestStatus.todo]: 2,
+				total: 13,
 			});
 		});
 
@@ -963,22 +1170,45 @@ export default describe(() => {
 				[TestStatus.fail]: 3,
 				[TestStatus.skip]: 1,
 				[TestStatus.timeout]: 0,
+				[TestStatus.notRun]: 0,
+				[TestStatus.todo]: 0,
 				total: 5,
 			});
 		});
 
+		it("counts suites that have no body as todo tests", () => {
+			const suite = createSuite({ tests: [
+				createTodo({ mark: TestMark.todo }),
+				createSuite({ name: "todo suite", mark: TestMark.todo }),
+				createSuite({ name: "skipped suite", mark: TestMark.skip }),
+			]});
+
+			assert.equal(suite.count(), {
+				[TestStatus.pass]: 0,
+				[TestStatus.fail]: 0,
+				[TestStatus.skip]: 0,
+				[TestStatus.timeout]: 0,
+				[TestStatus.notRun]: 0,
+				[TestStatus.todo]: 2,
+				total: 2,
+			});
+		});
+
 	});
 
 
 	describe("serialization and deserialization", () => {
 
 		it("can be serialized and deserialized", () => {
-			const suite = createSuite({ tests: [
-				createPass({ name: "pass", mark: TestMark.none }),
+			const suite = createSuite({ seed: 42, tests: [
+				createPass({ name: "pass", mark: TestMark.none, warnings: [ "my warning" ] }),
+				createPass({ name: "expected failure", expectedFailure: "my error" }),
 				createSkip({ name: "skip", mark: TestMark.skip }),
-				createFail({ name: "fail", mark: TestMark.only }),
-				createTimeout({ name: "timeout" }),
-				createSuite({ name: "child", mark: TestMark.skip,
+				createSkip({ name: "skip with reason", reason: "my reason" }),
+				createTodo({ name: "todo", mark: TestMark.todo }),
+				createFail({ name: "fail", mark: TestMark.only, output: "fail output" }),
+				createTimeout({ name: "timeout", output: "timeout output" }),
+				createSuite({ name: "child", mark: TestMark.skip, cancelled: true,
 					beforeAll: [ createPass({ name: [ "child", "beforeAll" ]}) ],
 					afterAll: [ createPass({ name: [ "child", "afterAll" ]}) ],
 					tests: [
@@ -986,6 +1216,7 @@ export default describe(() => {
 							name: [ "child", "child pass" ],
 							beforeEach: [ createPass({ name: [ "child", "beforeEach" ]}) ],
 							afterEach: [ createPass({ name: [ "child", "afterEach" ]}) ],
+							fixtures: [ createPass({ name: [ "child", "child pass", "fixture" ]}) ],
 						}),
 					],
 				}),
@@ -997,6 +1228,15 @@ export default describe(() => {
 			assert.equal(deserialized, suite);
 		});
 
+		it("deserializes results that were serialized before suites could be cancelled", () => {
+			const serialized = createSuite({ tests: [ createPass() ]}).serialize();
+			delete serialized.cancelled;
+
+			const deserialized = TestSuiteResult.deserialize(serialized);
+			assert.equal(deserialized, createSuite({ tests: [ createPass() ]}));
+			assert.equal(deserialized.cancelled, false);
+		});
+
 	});
 
 });
@@ -140,6 +140,8 @@ export class TestRenderer {
 			[TestStatus.fail]: Colors.brightRed.inverse("X"),
 			[TestStatus.skip]: Colors.cyan.dim("_"),
 			[TestStatus.timeout]: Colors.purple.inverse("!"),
+			[TestStatus.notRun]: Colors.yellow.dim("-"),
+			[TestStatus.todo]: Colors.blue.dim("?"),
 		};
 	}
 
@@ -150,6 +152,8 @@ export class TestRenderer {
 			[TestStatus.fail]: Colors.brightRed("failed"),
 			[TestStatus.skip]: Colors.brightCyan("skipped"),
 			[TestStatus.timeout]: Colors.brightPurple("timeout"),
+			[TestStatus.notRun]: Colors.brightYellow("not run"),
+			[TestStatus.todo]: Colors.brightBlue("todo"),
 		};
 	}
 
@@ -157,19 +161,23 @@ export class TestRenderer {
 	 * @param {TestSuiteResult} testSuiteResult The test suite to render.
 	 * @param {number} [elapsedMs] The total time required to run the test suite, in milliseconds.
 	 * @returns {string} A summary of the results of a test suite, including the average time required per test if
-	 *   `elapsedMs` is defined.
+	 *   `elapsedMs` is defined, and the seed if the tests ran in random order.
 	 */
 	renderSummary(testSuiteResult: TestSuiteResult, elapsedMs?: number): string {
 		ensure.signature(arguments, [ TestSuiteResult, [ undefined, Number ]]);
 
-		const { total, pass, fail, timeout, skip } = testSuiteResult.count();
+		const { total, pass, fail, timeout, skip, notRun, todo } = testSuiteResult.count();
 
 		const renders = [
+			testSuiteResult.cancelled ? Colors.brightYellow("cancelled") : "",
 			renderCount(fail, "failed", Colors.brightRed),
 			renderCount(timeout, "timed out", Colors.purple),
 			renderCount(skip, "skipped", Colors.cyan),
+			renderCount(notRun, "not run", Colors.yellow),
+			renderCount(todo, "todo", Colors.blue),
 			renderCount(pass, "passed", Colors.green),
-			renderMsEach(elapsedMs, total, skip),
+			renderMsEach(elapsedMs, total - notRun - todo, skip),
+			testSuiteResult.seed === undefined ? "" : summaryColor(`seed ${testSuiteResult.seed}`),
 		].filter(render => render !== "");
 
 		return summaryColor("(") + renders.join(summaryColor("; ")) + summaryColor(")");
@@ -206,7 +214,8 @@ export class TestRenderer {
 
 	/**
 	 * @param {TestCaseResult | TestCaseResult[]} The tests to render.
-	 * @returns {string} A line for each test with the status (passed, failed, etc.) and the test name.
+	 * @returns {string} A line for each test with the status (passed, failed, etc.) and the test name. Tests that passed
+	 *   because they were expected to fail, such as tests defined with `it.fails()`, are noted as "(expected failure)".
 	 */
 	renderAsSingleLines(testCaseResults: TestCaseResult | TestCaseResult[]): string {
 		ensure.signature(arguments, [[ TestCaseResult, Array ]]);
@@ -221,7 +230,7 @@ export class TestRenderer {
 		function renderDetail(testResult: TestCaseResult) {
 			const separator = `\n  ${summaryColor("-->")}  `;
 
-			const beforeAfter = [ ...testResult.beforeEach, ...testResult.afterEach ];
+			const beforeAfter = beforeAfterResults(testResult);
 			const details = renderMultipleResults(beforeAfter, separator, RunResult, detail => renderResult(detail));
 
 			return renderResult(testResult)
@@ -234,13 +243,17 @@ export class TestRenderer {
 
 			const status = self.renderStatusAsSingleWord(result.status);
 			const name = self.renderNameOnOneLine(result.name, result.filename);
-			return `${status} ${name}`;
+			const expectedFailure = result.isPass() && result.it.expectedFailure !== undefined
+				? " " + summaryColor("(expected failure)")
+				: "";
+			return `${status}${expectedFailure} ${name}`;
 		}
 	}
 
 	/**
 	 * @param {TestCaseResult | TestCaseResult[]} The tests to render.
-	 * @returns {string} A full explanation of this test result.
+	 * @returns {string} A full explanation of this test result. If a test failed or timed out, the output it wrote to
+	 *   stdout and stderr is included; output from other tests is suppressed. Warnings are always included.
 	 */
 	renderAsMultipleLines(testCaseResults: TestCaseResult | TestCaseResult[]): string {
 		ensure.signature(arguments, [[ TestSuiteResult, TestCaseResult, Array ]]);
@@ -254,13 +267,13 @@ export class TestRenderer {
 			}
 			else {
 				const status = this.renderStatusWithMultiLineDetails(testResult.it);
-				return `${name}\n\n${status}`;
+				return `${name}\n\n${status}` + renderOutput(testResult) + renderWarnings(testResult);
 			}
 		});
 
 		function renderDetail(testResult: TestCaseResult): string {
 			const chevrons = headerColor(`»»» `);
-			const beforeAfter = [ ...testResult.beforeEach, ...testResult.afterEach ];
+			const beforeAfter = beforeAfterResults(testResult);
 			const details = renderMultipleResults(beforeAfter, `\n\n`, RunResult, detail => {
 				const status = self.renderStatusWithMultiLineDetails(detail);
 				const finalName = normalizeName(detail.name).pop() as string;
@@ -275,14 +288,32 @@ export class TestRenderer {
 				+ details + "\n\n"
 				+ chevrons + headerColor("the test itself") + "\n"
 				+ self.renderNameOnOneLine(test.name, test.filename) + "\n\n"
-				+ self.renderStatusWithMultiLineDetails(test) + "\n\n"
+				+ self.renderStatusWithMultiLineDetails(test)
+				+ renderOutput(testResult)
+				+ renderWarnings(testResult) + "\n\n"
 				+ headerColor("«««");
 		}
+
+		function renderOutput(testResult: TestCaseResult): string {
+			const output = testResult.output;
+			const showOutput = testResult.isFail() || testResult.isTimeout();
+			if (!showOutput || output === "") return "";
+
+			return "\n\n" + headerColor("Output:") + "\n" + output;
+		}
+
+		function renderWarnings(testResult: TestCaseResult): string {
+			const warnings = testResult.warnings;
+			if (warnings.length === 0) return "";
+
+			return "\n\n" + headerColor("Warnings:") + "\n" + warnings.join("\n\n");
+		}
 	}
 
 	/**
 	 * @param {TestResult | TestResult[]} The tests or suites to render.
 	 * @returns {string} A line for each test or suite that's marked (.only, .skip, etc.) with the mark and the test name.
+	 *   If a skipped test has a skip reason, such as one provided to `it.skipIf()`, the reason is included.
 	 */
 	renderMarksAsLines(testResults: TestResult | TestResult[]): string {
 		ensure.signature(arguments, [[ TestSuiteResult, TestCaseResult, Array ]]);
@@ -290,9 +321,11 @@ export class TestRenderer {
 		return renderMultipleResults(testResults, "\n", TestResult, (testResult: TestResult) => {
 			const mark = this.renderMarkAsSingleWord(testResult.mark);
 			const name = this.renderNameOnOneLine(testResult.name, testResult.filename);
+			const reason = testResult instanceof TestCaseResult && testResult.isSkip() ? testResult.skipReason : undefined;
 
 			if (mark === "") return "";
-			else return `${mark} ${name}`;
+			else if (reason === undefined) return `${mark} ${name}`;
+			else return `${mark} ${name} ${summaryColor(`(${reason})`)}`;
 		});
 
 	}
@@ -349,14 +382,24 @@ export class TestRenderer {
 
 	/**
 	 * @param { RunResult } status The result to render.
-	 * @returns { string } The color-coded status, including error and timeout details where appropriate.
+	 * @returns { string } The color-coded status, including error, timeout, skip reason, and expected failure details
+	 *   where appropriate.
 	 */
 	renderStatusWithMultiLineDetails(runResult: RunResult): string {
 		ensure.signature(arguments, [ RunResult ]);
 
 		switch (runResult.status) {
-			case TestStatus.pass:
 			case TestStatus.skip:
+				return runResult.skipReason === undefined
+					? TestRenderer.#DESCRIPTION_RENDERING[runResult.status]
+					: `${TestRenderer.#DESCRIPTION_RENDERING[runResult.status]}: ${runResult.skipReason}`;
+			case TestStatus.pass:
+				return runResult.expectedFailure === undefined
+					? TestRenderer.#DESCRIPTION_RENDERING[runResult.status]
+					: `${TestRenderer.#DESCRIPTION_RENDERING[runResult.status]} (expected failure): `
+						+ runResult.expectedFailure;
+			case TestStatus.notRun:
+			case TestStatus.todo:
 				return TestRenderer.#DESCRIPTION_RENDERING[runResult.status];
 			case TestStatus.fail:
 				return (typeof runResult.errorRender === "string") ?
@@ -380,6 +423,7 @@ export class TestRenderer {
 			case TestMark.none: return "(no mark)";
 			case TestMark.skip: return Colors.brightCyan(".skip");
 			case TestMark.only: return Colors.brightCyan(".only");
+			case TestMark.todo: return Colors.brightBlue(".todo");
 			default: ensure.unreachable(`Unrecognized test mark: ${mark}`);
 		}
 	}
@@ -390,12 +434,17 @@ function normalizeName(name: string[]): string[] {
 	return name.length === 0 ? [ "(no name)" ] : [ ...name ];
 }
 
+function beforeAfterResults(testResult: TestCaseResult) {
+	return [ ...testResult.beforeEach, ...testResult.afterEach, ...testResult.fixtures ];
+}
+
 function showTestDetail(testResult: TestCaseResult) {
-	const beforeAfter = [ ...testResult.beforeEach, ...testResult.afterEach ];
+	const beforeAfter = beforeAfterResults(testResult);
 	const allBeforeAfterPass = beforeAfter.every(result => result.status === TestStatus.pass);
 	const allBeforeAfterSkipped = beforeAfter.every(result => result.status === TestStatus.skip);
+	const testDidNotRun = testResult.it.status === TestStatus.skip || testResult.it.status === TestStatus.todo;
 
-	return !(allBeforeAfterPass || (allBeforeAfterSkipped && testResult.it.status === TestStatus.skip));
+	return !(allBeforeAfterPass || (allBeforeAfterSkipped && testDidNotRun));
 }
 
 function renderMultipleResults<T>(
@@ -9,6 +9,8 @@ export const TestStatus = {
 	fail: "fail",
 	skip: "skip",
 	timeout: "timeout",
+	notRun: "notRun",
+	todo: "todo",
 } as const;
 
 export type TestStatusValue = typeof TestStatus[keyof typeof TestStatus];
@@ -17,6 +19,7 @@ export const TestMark = {
 	none: "none",
 	skip: "skip",
 	only: "only",
+	todo: "todo",
 } as const;
 
 export type TestMarkValue = typeof TestMark[keyof typeof TestMark];
@@ -26,6 +29,8 @@ export interface TestCount {
 	fail: number;
 	skip: number;
 	timeout: number;
+	notRun: number;
+	todo: number;
 	total: number;
 }
 
@@ -39,6 +44,8 @@ export interface SerializedTestSuiteResult {
 	tests: SerializedTestResult[];
 	beforeAll: SerializedTestCaseResult[];
 	afterAll: SerializedTestCaseResult[];
+	cancelled?: boolean;
+	seed?: number;
 }
 
 export interface SerializedTestCaseResult {
@@ -46,6 +53,7 @@ export interface SerializedTestCaseResult {
 	mark: TestMarkValue;
 	beforeEach: SerializedRunResult[];
 	afterEach: SerializedRunResult[];
+	fixtures?: SerializedRunResult[];
 	it: SerializedRunResult;
 }
 
@@ -57,6 +65,10 @@ export interface SerializedRunResult {
 	errorMessage?: string;
 	errorRender?: unknown;
 	timeout?: number;
+	skipReason?: string;
+	expectedFailure?: string;
+	output?: string;
+	warnings?: string[];
 }
 
 export type RenderErrorFn = (name: string[], error: unknown, filename?: string) => unknown;
@@ -141,6 +153,8 @@ export class TestSuiteResult extends TestResult {
 	 * @param {TestCaseResult[]} [options.afterAll] The afterAll() blocks in this suite.
 	 * @param {string} [options.filename] The file that contained this suite (optional).
 	 * @param {TestMarkValue} [options.mark] Whether this suite was marked with `.skip`, `.only`, or nothing.
+	 * @param {boolean} [options.cancelled] Whether the test run was cancelled before this suite finished.
+	 * @param {number} [options.seed] The seed used to put the tests in random order, if they were.
 	 * @returns {TestSuiteResult} The result.
 	 */
 	static create({
@@ -149,7 +163,9 @@ export class TestSuiteResult extends TestResult {
 		beforeAll = [],
 		afterAll = [],
 		filename,
-		mark = TestMark.none
+		mark = TestMark.none,
+		cancelled = false,
+		seed,
 	}: {
 		name?: string[],
 		tests?: TestResult[],
@@ -157,6 +173,8 @@ export class TestSuiteResult extends TestResult {
 		afterAll?: TestCaseResult[],
 		filename?: string,
 		mark?: TestMarkValue,
+		cancelled?: boolean,
+		seed?: number,
 	} = {}): TestSuiteResult {
 		ensure.signature(arguments, [[ undefined, {
 			name: [ undefined, String, Array ],
@@ -164,10 +182,12 @@ export class TestSuiteResult extends TestResult {
 			beforeAll: [ undefined, Array ],
 			afterAll: [ undefined, Array ],
 			filename: [ undefined, String ],
-			mark: [ undefined, String ]
+			mark: [ undefined, String ],
+			cancelled: [ undefined, Boolean ],
+			seed: [ undefined, Number ],
 		}]]);
 
-		return new TestSuiteResult(name, tests, beforeAll, afterAll, mark, filename);
+		return new TestSuiteResult(name, tests, beforeAll, afterAll, mark, filename, cancelled, seed);
 	}
 
 	/**
@@ -185,14 +205,42 @@ export class TestSuiteResult extends TestResult {
 			tests: Array,
 			beforeAll: Array,
 			afterAll: Array,
+			cancelled: [ undefined, Boolean ],
+			seed: [ undefined, Number ],
 		}], [ "serialized TestSuiteResult" ]);
 
-		const { name, filename, mark, tests, beforeAll, afterAll } = suite;
+		const { name, filename, mark, tests, beforeAll, afterAll, cancelled = false, seed } = suite;
 		const deserializedTests = tests.map(test => TestResult.deserialize(test));
 		const deserializedBeforeAll = beforeAll.map(test => TestCaseResult.deserialize(test));
 		const deserializedAfterAll = afterAll.map(test => TestCaseResult.deserialize(test));
 
-		return new TestSuiteResult(name, deserializedTests, deserializedBeforeAll, deserializedAfterAll, mark, filename);
+		return new TestSuiteResult(
+			name, deserializedTests, deserializedBeforeAll, deserializedAfterAll, mark, filename, cancelled, seed
+		);
+	}
+
+	/**
+	 * Combine the results of several test runs into a single result, such as the results of running each shard of a
+	 * test suite on a different computer. The tests, beforeAll() blocks, and afterAll() blocks of each result are
+	 * combined in the order provided. The name, filename, mark, and seed come from the first result. The combined
+	 * result is cancelled if any of the results were cancelled.
+	 * @param {TestSuiteResult[]} results The results to combine.
+	 * @returns {TestSuiteResult} The combined result.
+	 */
+	static merge(results: TestSuiteResult[]): TestSuiteResult {
+		ensure.signature(arguments, [ Array ]);
+
+		const [ first ] = results;
+		return new TestSuiteResult(
+			first?.name ?? [],
+			results.flatMap(result => result.tests),
+			results.flatMap(result => result.beforeAll),
+			results.flatMap(result => result.afterAll),
+			first?.mark ?? TestMark.none,
+			first?.filename,
+			results.some(result => result.cancelled),
+			first?.seed,
+		);
 	}
 
 	private readonly _name: string[];
@@ -201,9 +249,20 @@ export class TestSuiteResult extends TestResult {
 	private readonly _afterAll: TestCaseResult[];
 	private readonly _mark: TestMarkValue;
 	private readonly _filename?: string;
+	private readonly _cancelled: boolean;
+	private readonly _seed?: number;
 
 	/** Internal use only. (Use {@link TestResult.suite} instead.) */
-	constructor(name: string[], tests: TestResult[], beforeAll: TestCaseResult[], afterAll: TestCaseResult[], mark: TestMarkValue, filename?: string) {
+	constructor(
+		name: string[],
+		tests: TestResult[],
+		beforeAll: TestCaseResult[],
+		afterAll: TestCaseResult[],
+		mark: TestMarkValue,
+		filename?: string,
+		cancelled = false,
+		seed?: number,
+	) {
 		super();
 		this._name = name;
 		this._tests = tests;
@@ -211,6 +270,8 @@ export class TestSuiteResult extends TestResult {
 		this._afterAll = afterAll;
 		this._mark = mark;
 		this._filename = filename;
+		this._cancelled = cancelled;
+		this._seed = seed;
 	}
 
 	/**
@@ -256,6 +317,22 @@ export class TestSuiteResult extends TestResult {
 		return this._afterAll;
 	}
 
+	/**
+	 * @returns { boolean } True if the test run was cancelled before this suite finished. A cancelled suite only
+	 *   includes the results of tests that ran before the cancellation.
+	 */
+	get cancelled(): boolean {
+		return this._cancelled;
+	}
+
+	/**
+	 * @returns { number | undefined } The seed used to put the tests in random order, or undefined if they ran in the
+	 *   order they were declared. Provide it to {@link TestOptions.seed} to run the tests in the same order again.
+	 */
+	get seed(): number | undefined {
+		return this._seed;
+	}
+
 	/**
 	 * Convert this suite to a nicely-formatted string. The string describes the tests that have marks (such as .only)
 	 * and provides details about the tests that have failed or timed out. It doesn't provide any details about the tests
@@ -274,7 +351,7 @@ export class TestSuiteResult extends TestResult {
 
 		const renderer = TestRenderer.create();
 		const marks = this.allMarkedResults();
-		const errors = this.allMatchingTests(TestStatus.fail, TestStatus.timeout);
+		const errors = this.allTests().filter(test => test.isFail() || test.isTimeout() || test.warnings.length > 0);
 
 		const markRender = renderer.renderMarksAsLines(marks);
 		const errorRender = renderer.renderAsMultipleLines(errors);
@@ -372,7 +449,7 @@ export class TestSuiteResult extends TestResult {
 
 	/**
 	 * @returns {TestCount} A summary count of this suite's results. Includes a count of each type of test result and the
-	 *   total number of tests.
+	 *   total number of tests. Suites that have no body are counted as "todo" tests.
 	 */
 	count(): TestCount {
 		ensure.signature(arguments, []);
@@ -382,6 +459,8 @@ export class TestSuiteResult extends TestResult {
 			[TestStatus.fail]: 0,
 			[TestStatus.skip]: 0,
 			[TestStatus.timeout]: 0,
+			[TestStatus.notRun]: 0,
+			[TestStatus.todo]: 0,
 			total: 0,
 		};
 
@@ -389,6 +468,12 @@ export class TestSuiteResult extends TestResult {
 			count[test.status]++;
 			count.total++;
 		});
+		this.allMatchingMarks(TestMark.todo)
+			.filter(result => result instanceof TestSuiteResult)
+			.forEach(() => {
+				count.todo++;
+				count.total++;
+			});
 
 		return count;
 	}
@@ -409,6 +494,8 @@ export class TestSuiteResult extends TestResult {
 			tests: this._tests.map(test => test.serialize()),
 			beforeAll: this._beforeAll.map(test => test.serialize()),
 			afterAll: this._afterAll.map(test => test.serialize()),
+			cancelled: this._cancelled,
+			seed: this._seed,
 		};
 	}
 
@@ -417,6 +504,8 @@ export class TestSuiteResult extends TestResult {
 
 		if (!(that instanceof TestSuiteResult)) return false;
 		if (this._mark !== that._mark) return false;
+		if (this._cancelled !== that._cancelled) return false;
+		if (this._seed !== that._seed) return false;
 
 		if (!compareTestResults(this._tests, that._tests)) return false;
 		if (!compareTestResults(this._beforeAll, that._beforeAll)) return false;
@@ -447,27 +536,31 @@ export class TestCaseResult extends TestResult {
 	private readonly _mark: TestMarkValue;
 	private _beforeEach: RunResult[];
 	private _afterEach: RunResult[];
+	private _fixtures: RunResult[];
 	private readonly _it: RunResult;
 
 	static create({
 		mark = TestMark.none,
 		beforeEach = [],
 		afterEach = [],
+		fixtures = [],
 		it,
 	}: {
 		mark?: TestMarkValue
 		beforeEach?: RunResult[],
 		afterEach?: RunResult[],
+		fixtures?: RunResult[],
 		it: RunResult,
 	}): TestCaseResult {
 		ensure.signature(arguments, [[ undefined, {
 			mark: [ undefined, String ],
 			beforeEach: [ undefined, Array ],
 			afterEach: [ undefined, Array ],
+			fixtures: [ undefined, Array ],
 			it: RunResult,
 		}]]);
 
-		return new TestCaseResult({ mark, beforeEach, afterEach, it });
+		return new TestCaseResult({ mark, beforeEach, afterEach, fixtures, it });
 	}
 
 	/**
@@ -476,22 +569,25 @@ export class TestCaseResult extends TestResult {
 	 * @returns {TestCaseResult} The result object.
 	 * @see TestResult#deserialize
 	 */
-	static deserialize({ mark, beforeEach, afterEach, it }: SerializedTestCaseResult): TestCaseResult {
+	static deserialize({ mark, beforeEach, afterEach, fixtures = [], it }: SerializedTestCaseResult): TestCaseResult {
 		ensure.signature(arguments, [{
 			type: String,
 			mark: String,
 			beforeEach: [ undefined, Array ],
 			afterEach: [ undefined, Array ],
+			fixtures: [ undefined, Array ],
 			it: Object,
 		}], [ "serialized TestCaseResult" ]);
 
 		const deserializedBeforeEach = beforeEach.map(each => RunResult.deserialize(each));
 		const deserializedAfterEach = afterEach.map(each => RunResult.deserialize(each));
+		const deserializedFixtures = fixtures.map(fixture => RunResult.deserialize(fixture));
 
 		return new TestCaseResult({
 			mark,
 			beforeEach: deserializedBeforeEach,
 			afterEach: deserializedAfterEach,
+			fixtures: deserializedFixtures,
 			it: RunResult.deserialize(it),
 		});
 	}
@@ -501,11 +597,13 @@ export class TestCaseResult extends TestResult {
 		{
 			beforeEach = [],
 			afterEach = [],
+			fixtures = [],
 			it,
 			mark,
 		}: {
 			beforeEach?: RunResult[],
 			afterEach?: RunResult[],
+			fixtures?: RunResult[],
 			it: RunResult,
 			mark?: TestMarkValue
 		},
@@ -514,6 +612,7 @@ export class TestCaseResult extends TestResult {
 		this._mark = mark ?? TestMark.none;
 		this._beforeEach = beforeEach;
 		this._afterEach = afterEach;
+		this._fixtures = fixtures;
 		this._it = it;
 	}
 
@@ -533,14 +632,17 @@ export class TestCaseResult extends TestResult {
 	}
 
 	/**
-	 * @returns {TestStatusValue} Whether this test passed, failed, etc., taking into account the status of beforeEach()
-	 *   and afterEach() results.
+	 * @returns {TestStatusValue} Whether this test passed, failed, etc., taking into account the status of beforeEach(),
+	 *   afterEach(), and fixture results.
 	 */
 	get status(): TestStatusValue {
 		const consolidatedBefore = this._beforeEach.reduce(consolidateRunResult, TestStatus.pass);
-		const consolidatedBeforeAndAfter = this._afterEach.reduce(consolidateRunResult, consolidatedBefore);
+		const consolidatedBeforeAndAfter = [ ...this._afterEach, ...this._fixtures ]
+			.reduce(consolidateRunResult, consolidatedBefore);
 
 		if (consolidatedBeforeAndAfter === TestStatus.pass && this._it.status === TestStatus.skip) return TestStatus.skip;
+		if (consolidatedBeforeAndAfter === TestStatus.pass && this._it.status === TestStatus.notRun) return TestStatus.notRun;
+		if (consolidatedBeforeAndAfter === TestStatus.pass && this._it.status === TestStatus.todo) return TestStatus.todo;
 		else return consolidateStatus(consolidatedBeforeAndAfter, this._it.status);
 
 		function consolidateRunResult(previousStatus: TestStatusValue, runResult: RunResult) {
@@ -576,6 +678,14 @@ export class TestCaseResult extends TestResult {
 		return this._afterEach;
 	}
 
+	/**
+	 * @returns { RunResult[] } The fixtures this test used, in the order they were set up. Each result covers both
+	 *   setting up and tearing down the fixture.
+	 */
+	get fixtures(): RunResult[] {
+		return this._fixtures;
+	}
+
 	/**
 	 * @returns { RunResult } The it() result for this test.
 	 */
@@ -610,6 +720,35 @@ export class TestCaseResult extends TestResult {
 		return this._it.timeout;
 	}
 
+	/**
+	 * @returns {string | undefined} Why this test was skipped, if a reason was provided. The reason can come from the
+	 *   test itself or from a beforeEach() function that skipped the test.
+	 * @throws {Error} Throws an error if this test wasn't skipped.
+	 */
+	get skipReason(): string | undefined {
+		ensure.that(this.status === TestStatus.skip, "Attempted to retrieve skip reason from a test that wasn't skipped");
+		const withReason = [ ...this._beforeEach, this._it ].find(result => (
+			result.status === TestStatus.skip && result.skipReason !== undefined
+		));
+		return withReason?.skipReason;
+	}
+
+	/**
+	 * @returns {string} Everything this test wrote to stdout and stderr (including console output) while its
+	 *   beforeEach(), it(), afterEach(), and fixture teardown functions ran.
+	 */
+	get output(): string {
+		return this.#allRunResults().map(result => result.output).join("");
+	}
+
+	/**
+	 * @returns {string[]} Problems detected while this test's beforeEach(), it(), afterEach(), and fixture functions
+	 *   ran, such as leaked resources, that didn't cause the test to fail.
+	 */
+	get warnings(): string[] {
+		return this.#allRunResults().flatMap(result => result.warnings);
+	}
+
 	/**
 	 * @returns {boolean} True if this test passed.
 	 */
@@ -646,6 +785,25 @@ export class TestCaseResult extends TestResult {
 		return this.status === TestStatus.timeout;
 	}
 
+	/**
+	 * @returns {boolean} True if this test never ran because the test run bailed out after too many failures, or
+	 *   was cancelled before the test started.
+	 */
+	isNotRun(): boolean {
+		ensure.signature(arguments, []);
+
+		return this.status === TestStatus.notRun;
+	}
+
+	/**
+	 * @returns {boolean} True if this test has no body, such as a test defined with `it.todo()`.
+	 */
+	isTodo(): boolean {
+		ensure.signature(arguments, []);
+
+		return this.status === TestStatus.todo;
+	}
+
 	/**
 	 * Render the test case as a single color-coded character.
 	 *
@@ -717,6 +875,7 @@ export class TestCaseResult extends TestResult {
 			mark: this._mark,
 			beforeEach: this._beforeEach.map(each => each.serialize()),
 			afterEach: this._afterEach.map(each => each.serialize()),
+			fixtures: this._fixtures.map(fixture => fixture.serialize()),
 			it: this._it.serialize(),
 		};
 	}
@@ -728,11 +887,13 @@ export class TestCaseResult extends TestResult {
 		const sameIt = this._it.equals(that._it);
 		const sameBeforeEach = compareRunResults(this._beforeEach, that._beforeEach);
 		const sameAfterEach = compareRunResults(this._afterEach, that._afterEach);
+		const sameFixtures = compareRunResults(this._fixtures, that._fixtures);
 
 		return sameMark
 			&& sameIt
 			&& sameBeforeEach
-			&& sameAfterEach;
+			&& sameAfterEach
+			&& sameFixtures;
 
 		function compareRunResults(thisResults: RunResult[], thatResults: RunResult[]): boolean {
 			if (thisResults.length !== thatResults.length) return false;
@@ -745,6 +906,10 @@ export class TestCaseResult extends TestResult {
 		}
 	}
 
+	#allRunResults(): RunResult[] {
+		return [ ...this._beforeEach, this._it, ...this._afterEach, ...this._fixtures ];
+	}
+
 }
 
 
@@ -760,26 +925,44 @@ export class RunResult {
 	private readonly _errorMessage?: string;
 	private readonly _errorRender?: unknown;
 	private readonly _timeout?: number;
+	private readonly _skipReason?: string;
+	private readonly _expectedFailure?: string;
+	private readonly _output: string;
+	private readonly _warnings: string[];
 
 	/**
 	 * Create a RunResult for a test function that completed normally.
 	 * @param {string|string[]} options.name The name of the test function. Can be a list of names.
 	 * @param {string} [options.filename] The file that contained this test function (optional).
+	 * @param {string} [options.output] The output the test function wrote to stdout and stderr (optional).
+	 * @param {string[]} [options.warnings] Problems detected while the test function ran, such as leaked resources,
+	 *   that didn't cause it to fail (optional).
+	 * @param {string} [options.expectedFailure] If the test function was expected to fail, such as a test defined with
+	 *   `it.fails()`, the message of the error it threw (optional).
 	 * @returns {RunResult} The result.
 	 */
 	static pass({
 		name,
 		filename,
+		output,
+		warnings,
+		expectedFailure,
 	}: {
 		name: string[],
 		filename?: string,
+		output?: string,
+		warnings?: string[],
+		expectedFailure?: string,
 	}): RunResult {
 		ensure.signature(arguments, [[ undefined, {
 			name: Array,
 			filename: [ undefined, String ],
+			output: [ undefined, String ],
+			warnings: [ undefined, Array ],
+			expectedFailure: [ undefined, String ],
 		}]]);
 
-		return new RunResult({ name, filename, status: TestStatus.pass });
+		return new RunResult({ name, filename, status: TestStatus.pass, output, warnings, expectedFailure });
 	}
 
 	/**
@@ -789,6 +972,7 @@ export class RunResult {
 	 * @param {unknown} options.error The error that occurred.
 	 * @param {(name: string, error: unknown, mark: TestMarkValue, filename?: string) => unknown} [options.renderError]
 	 *   The function to use to render the error into a string (defaults to {@link renderError})
+	 * @param {string} [options.output] The output the test function wrote to stdout and stderr (optional).
 	 * @returns {RunResult} The result.
 	 */
 	static fail(
@@ -797,11 +981,13 @@ export class RunResult {
 			filename,
 			error,
 			renderError = renderErrorFn,
+			output,
 		}: {
 			name: string[],
 			filename?: string,
 			error: unknown,
-			renderError?: RenderErrorFn
+			renderError?: RenderErrorFn,
+			output?: string,
 		},
 	): RunResult {
 		ensure.signature(arguments, [[ undefined, {
@@ -809,40 +995,93 @@ export class RunResult {
 			filename: [ undefined, String ],
 			error: ensure.ANY_TYPE,
 			renderError: [ undefined, Function ],
+			output: [ undefined, String ],
 		}]]);
 
-		let errorMessage: string;
-		if (error instanceof Error) errorMessage = error.message ?? "";
-		else if (typeof error === "string") errorMessage = error;
-		else errorMessage = util.inspect(error, { depth: Infinity });
-
+		const errorMessage = renderErrorMessage(error);
 		const errorRender = renderError(name, error, filename);
 
-		return new RunResult({ name, filename, status: TestStatus.fail, errorMessage, errorRender });
+		return new RunResult({ name, filename, status: TestStatus.fail, errorMessage, errorRender, output });
 	}
 
 	/**
 	 * Create a RunResult for a test function that was skipped.
 	 * @param {string|string[]} options.name The name of the test function. Can be a list of names.
 	 * @param {string} [options.filename] The file that contained this test (optional).
+	 * @param {string} [options.reason] Why the test function was skipped (optional).
+	 * @param {string} [options.output] The output the test function wrote to stdout and stderr before it skipped
+	 *   itself (optional).
 	 * @returns {RunResult} The result.
 	 */
 	static skip(
 		{
 			name,
 			filename,
+			reason,
+			output,
 		}: {
 			name: string[],
 			filename?: string,
+			reason?: string,
+			output?: string,
 		}
 	): RunResult {
 		ensure.signature(arguments, [[ undefined, {
 			name: Array,
 			filename: [ undefined, String ],
-			mark: [ undefined, String ]
+			mark: [ undefined, String ],
+			reason: [ undefined, String ],
+			output: [ undefined, String ],
 		}]]);
 
-		return new RunResult({ name, filename, status: TestStatus.skip });
+		return new RunResult({ name, filename, status: TestStatus.skip, skipReason: reason, output });
+	}
+
+	/**
+	 * Create a RunResult for a test function that never ran because the test run bailed out after too many failures,
+	 * or was cancelled before the test started.
+	 * @param {string|string[]} options.name The name of the test function. Can be a list of names.
+	 * @param {string} [options.filename] The file that contained this test (optional).
+	 * @returns {RunResult} The result.
+	 */
+	static notRun(
+		{
+			name,
+			filename,
+		}: {
+			name: string[],
+			filename?: string,
+		}
+	): RunResult {
+		ensure.signature(arguments, [[ undefined, {
+			name: Array,
+			filename: [ undefined, String ],
+		}]]);
+
+		return new RunResult({ name, filename, status: TestStatus.notRun });
+	}
+
+	/**
+	 * Create a RunResult for a test that has no body, such as a test defined with `it.todo()`.
+	 * @param {string|string[]} options.name The name of the test function. Can be a list of names.
+	 * @param {string} [options.filename] The file that contained this test (optional).
+	 * @returns {RunResult} The result.
+	 */
+	static todo(
+		{
+			name,
+			filename,
+		}: {
+			name: string[],
+			filename?: string,
+		}
+	): RunResult {
+		ensure.signature(arguments, [[ undefined, {
+			name: Array,
+			filename: [ undefined, String ],
+		}]]);
+
+		return new RunResult({ name, filename, status: TestStatus.todo });
 	}
 
 	/**
@@ -850,6 +1089,7 @@ export class RunResult {
 	 * @param {string|string[]} options.name The name of the test function. Can be a list of names.
 	 * @param {string} [options.filename] The file that contained this test (optional).
 	 * @param {number} options.timeout The length of the timeout (not the actual time taken by the function).
+	 * @param {string} [options.output] The output the test function wrote to stdout and stderr (optional).
 	 * @returns {TestCaseResult} The result.
 	 */
 	static timeout(
@@ -857,19 +1097,22 @@ export class RunResult {
 			name,
 			filename,
 			timeout,
+			output,
 		}: {
 			name: string[],
 			filename?: string,
 			timeout: number,
+			output?: string,
 		},
 	): RunResult {
 		ensure.signature(arguments, [[ undefined, {
 			name: Array,
 			filename: [ undefined, String ],
 			timeout: Number,
+			output: [ undefined, String ],
 		}]]);
 
-		return new RunResult({ name, filename, status: TestStatus.timeout, timeout });
+		return new RunResult({ name, filename, status: TestStatus.timeout, timeout, output });
 	}
 
 	/**
@@ -887,6 +1130,10 @@ export class RunResult {
 			errorMessage: [ undefined, String ],
 			errorRender: ensure.ANY_TYPE,
 			timeout: [ undefined, Number ],
+			skipReason: [ undefined, String ],
+			expectedFailure: [ undefined, String ],
+			output: [ undefined, String ],
+			warnings: [ undefined, Array ],
 		}], [ "serialized RunResult" ]);
 
 		return new RunResult(serializedResult);
@@ -902,13 +1149,21 @@ export class RunResult {
 		errorMessage,
 		errorRender,
 		timeout,
+		skipReason,
+		expectedFailure,
+		output = "",
+		warnings = [],
 	}: {
 		name: string[],
 		filename?: string,
 		status: TestStatusValue,
 		errorMessage?: string,
 		errorRender?: unknown,
-		timeout?: number
+		timeout?: number,
+		skipReason?: string,
+		expectedFailure?: string,
+		output?: string,
+		warnings?: string[],
 	}) {
 		this._name = name;
 		this._filename = filename;
@@ -916,6 +1171,10 @@ export class RunResult {
 		this._errorMessage = errorMessage;
 		this._errorRender = errorRender;
 		this._timeout = timeout;
+		this._skipReason = skipReason;
+		this._expectedFailure = expectedFailure;
+		this._output = output;
+		this._warnings = warnings;
 	}
 
 	/**
@@ -971,6 +1230,38 @@ export class RunResult {
 		return this._timeout!;
 	}
 
+	/**
+	 * @returns {string | undefined} Why this test was skipped, if a reason was provided.
+	 * @throws {Error} Throws an error if this test wasn't skipped.
+	 */
+	get skipReason(): string | undefined {
+		ensure.that(this.status === TestStatus.skip, "Attempted to retrieve skip reason from a test that wasn't skipped");
+		return this._skipReason;
+	}
+
+	/**
+	 * @returns {string | undefined} If the test function was expected to fail, such as a test defined with `it.fails()`,
+	 *   and it did, the message of the error it threw. Otherwise, undefined.
+	 */
+	get expectedFailure(): string | undefined {
+		return this._expectedFailure;
+	}
+
+	/**
+	 * @returns {string} Everything the test function wrote to stdout and stderr (including console output) while it ran.
+	 */
+	get output(): string {
+		return this._output;
+	}
+
+	/**
+	 * @returns {string[]} Problems detected while the test function ran, such as leaked resources, that didn't cause it
+	 *   to fail.
+	 */
+	get warnings(): string[] {
+		return this._warnings;
+	}
+
 	equals(that: RunResult): boolean {
 		if (!(that instanceof RunResult)) return false;
 
@@ -979,8 +1270,13 @@ export class RunResult {
 		const sameName = util.isDeepStrictEqual(this._name, that._name);
 		const sameError = this.status !== TestStatus.fail || this._errorMessage === that._errorMessage;
 		const sameTimeout = this._status !== TestStatus.timeout || this._timeout === that._timeout;
+		const sameSkipReason = this._status !== TestStatus.skip || this._skipReason === that._skipReason;
+		const sameExpectedFailure = this._expectedFailure === that._expectedFailure;
+		const sameOutput = this._output === that._output;
+		const sameWarnings = util.isDeepStrictEqual(this._warnings, that._warnings);
 
-		return sameName && sameFilename && sameStatus && sameError && sameTimeout;
+		return sameName && sameFilename && sameStatus && sameError && sameTimeout && sameSkipReason
+			&& sameExpectedFailure && sameOutput && sameWarnings;
 	}
 
 	/**
@@ -999,12 +1295,28 @@ export class RunResult {
 			errorMessage: this._errorMessage,
 			errorRender: this._errorRender,
 			timeout: this._timeout,
+			skipReason: this._skipReason,
+			expectedFailure: this._expectedFailure,
+			output: this._output,
+			warnings: this._warnings,
 		};
 	}
 
 }
 
 
+/**
+ * Internal use only. Convert an error into a short description. If the error is an Error instance, it's equal to the
+ * error's `message` property. Otherwise, the error is converted to a string using `util.inspect()`.
+ * @param {unknown} error The error.
+ * @returns {string} The description.
+ */
+export function renderErrorMessage(error: unknown): string {
+	if (error instanceof Error) return error.message ?? "";
+	else if (typeof error === "string") return error;
+	else return util.inspect(error, { depth: Infinity });
+}
+
 function ensureValidMarks(marks: TestMarkValue[]) {
 	const validMarks = Object.values(TestMark);
 	marks.forEach((mark, i) => {
@@ -0,0 +1,180 @@
+// Copyright Titanium I.T. LLC. License granted under terms of "The MIT License."
+import { assert, beforeEach, describe, it } from "../../util/tests.js";
+import { findDependentModulesAsync } from "./import_graph.js";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+
+export default describe(() => {
+
+	let testDir: string;
+
+	beforeEach(async ({ getConfig }) => {
+		testDir = getConfig<string>("scratchDir");
+		await fs.rm(testDir, { recursive: true, force: true });
+		await fs.mkdir(testDir, { recursive: true });
+	});
+
+	it("finds test modules that import a changed file", async () => {
+		await writeFilesAsync({
+			"_a_test.js": `import { a } from "./a.js";`,
+			"_b_test.js": `import { b } from "./b.js";`,
+			"a.js": ``,
+			"b.js": ``,
+		});
+
+		assert.equal(await findAsync([ "_a_test.js", "_b_test.js" ], [ "a.js" ]), [ "_a_test.js" ]);
+	});
+
+	it("includes test modules that changed themselves", async () => {
+		await writeFilesAsync({
+			"_a_test.js": ``,
+			"_b_test.js": ``,
+		});
+
+		assert.equal(await findAsync([ "_a_test.js", "_b_test.js" ], [ "_b_test.js" ]), [ "_b_test.js" ]);
+	});
+
+	it("follows imports transitively", async () => {
+		await writeFilesAsync({
+			"_test.js": `import "./a.js";`,
+			"a.js": `import { b } from "./sub/b.js";`,
+			"sub/b.js": `export * from "../c.js";`,
+			"c.js": ``,
+		});
+
+		assert.equal(await findAsync([ "_test.js" ], [ "c.js" ]), [ "_test.js" ]);
+	});
+
+	it("handles circular imports", async () => {
+		await writeFilesAsync({
+			"_test.js": `import "./a.js";`,
+			"a.js": `import "./b.js";`,
+			"b.js": `import "./a.js";`,
+			"c.js": ``,
+		});
+
+		assert.equal(await findAsync([ "_test.js" ], [ "b.js" ]), [ "_test.js" ], "changed file in cycle");
+		assert.equal(await findAsync([ "_test.js" ], [ "c.js" ]), [], "changed file not imported");
+	});
+
+	it("recognizes all forms of static imports and re-exports", async () => {
+		await writeFilesAsync({
+			"_test.js": `
+				import "./side_effect.js";
+				import defaultExport from './single_quotes.js';
+				import * as namespace from "./namespace.js";
+				import defaultExport2, { named } from "./default_and_named.js";
+				import {
+					multiple,
+					lines as renamed,
+				} from "./multi_line.js";
+				import type { MyType } from "./type.js";
+				export { reexport } from "./reexport.js";
+				export * from "./reexport_all.js";
+			`,
+		});
+
+		const changedFiles = [
+			"side_effect.js", "single_quotes.js", "namespace.js", "default_and_named.js", "multi_line.js", "type.js",
+			"reexport.js", "reexport_all.js",
+		];
+		for (const changedFile of changedFiles) {
+			assert.equal(await findAsync([ "_test.js" ], [ changedFile ]), [ "_test.js" ], changedFile);
+		}
+	});
+
+	it("ignores commented-out imports, dynamic imports, and imports in strings", async () => {
+		await writeFilesAsync({
+			"_test.js": `
+				// import "./commented_out.js";
+				/*
+				 * import "./block_comment.js";
+				 */
+				const module = await import("./dynamic.js");
+				const source = 'import "./string.js"';
+			`,
+		});
+
+		const changedFiles = [ "commented_out.js", "block_comment.js", "dynamic.js", "string.js" ];
+		assert.equal(await findAsync([ "_test.js" ], changedFiles), []);
+	});
+
+	it("follows absolute paths and file URLs", async () => {
+		await writeFilesAsync({
+			"_test.js": `
+				import "${testDir}/absolute.js";
+				import "${pathToFileURL(`${testDir}/url.js`).href}";
+			`,
+		});
+
+		assert.equal(await findAsync([ "_test.js" ], [ "absolute.js" ]), [ "_test.js" ], "absolute path");
+		assert.equal(await findAsync([ "_test.js" ], [ "url.js" ]), [ "_test.js" ], "file URL");
+	});
+
+	it("ignores packages and built-in modules", async () => {
+		await writeFilesAsync({
+			"_test.js": `
+				import fs from "node:fs";
+				import { something } from "some_package";
+			`,
+		});
+
+		assert.equal(await findAsync([ "_test.js" ], [ "node_modules/some_package/index.js" ]), []);
+	});
+
+	it("follows TypeScript imports of '.js' files to the '.ts' files on disk", async () => {
+		await writeFilesAsync({
+			"_test.ts": `
+				import { a } from "./a.js";
+				import { b } from "./b.mjs";
+				import { c } from "./c.js";
+			`,
+			"a.ts": ``,
+			"b.mts": ``,
+			"c.js": ``,
+			"c.ts": ``,
+		});
+
+		assert.equal(await findAsync([ "_test.ts" ], [ "a.ts" ]), [ "_test.ts" ], ".ts");
+		assert.equal(await findAsync([ "_test.ts" ], [ "b.mts" ]), [ "_test.ts" ], ".mts");
+		assert.equal(await findAsync([ "_test.ts" ], [ "c.js" ]), [ "_test.ts" ], "prefers .js when it exists");
+	});
+
+	it("includes changed files that no longer exist", async () => {
+		await writeFilesAsync({
+			"_test.js": `import "./deleted.js";`,
+		});
+
+		assert.equal(await findAsync([ "_test.js" ], [ "deleted.js" ]), [ "_test.js" ]);
+	});
+
+	it("returns test modules in the order provided", async () => {
+		await writeFilesAsync({
+			"_a_test.js": `import "./shared.js";`,
+			"_b_test.js": `import "./shared.js";`,
+			"_c_test.js": `import "./shared.js";`,
+			"shared.js": ``,
+		});
+
+		const modules = [ "_c_test.js", "_a_test.js", "_b_test.js" ];
+		assert.equal(await findAsync(modules, [ "shared.js" ]), modules);
+	});
+
+	async function findAsync(modules: string[], changedFiles: string[]): Promise<string[]> {
+		const results = await findDependentModulesAsync(
+			modules.map(module => `${testDir}/${module}`),
+			changedFiles.map(file => `${testDir}/${file}`),
+		);
+		return results.map(result => path.relative(testDir, result));
+	}
+
+	async function writeFilesAsync(files: Record<string, string>) {
+		await Promise.all(Object.entries(files).map(async ([ relativePath, contents ]) => {
+			const filename = `${testDir}/${relativePath}`;
+			await fs.mkdir(path.dirname(filename), { recursive: true });
+			await fs.writeFile(filename, contents);
+		}));
+	}
+
+});
@@ -0,0 +1,103 @@
+// Copyright Titanium I.T. LLC. License granted under terms of "The MIT License."
+import { assert, beforeEach, describe, it } from "../../util/tests.js";
+import { selectShardAsync } from "./sharding.js";
+import fs from "node:fs/promises";
+import path from "node:path";
+
+export default describe(() => {
+
+	let testDir: string;
+
+	beforeEach(async ({ getConfig }) => {
+		testDir = getConfig<string>("scratchDir");
+		await fs.rm(testDir, { recursive: true, force: true });
+		await fs.mkdir(testDir, { recursive: true });
+	});
+
+	it("runs every module in exactly one shard", async () => {
+		const modules = [ "a.js", "b.js", "c.js", "d.js", "e.js" ];
+		await writeFilesAsync(Object.fromEntries(modules.map(module => [ module, `it("test", () => {});` ])));
+
+		const shards = await allShardsAsync(modules, 3);
+
+		assert.equal(shards.flat().sort(), modules);
+		shards.forEach((shard, i) => assert.notEqual(shard, [], `shard ${i} should have modules`));
+	});
+
+	it("balances shards by number of tests", async () => {
+		await writeFilesAsync({
+			"big.js": `it("1", fn); it("2", fn); it.skip("3", fn); it.only("4", fn);`,
+			"medium_1.js": `it("1", fn); it("2", fn);`,
+			"medium_2.js": `it("1", fn); it("2", fn);`,
+			"not_tests.js": `submit("1"); obj.it("2"); split("3");`,
+		});
+
+		assert.equal(await allShardsAsync([ "big.js", "medium_1.js", "medium_2.js", "not_tests.js" ], 2), [
+			[ "big.js", "not_tests.js" ],
+			[ "medium_1.js", "medium_2.js" ],
+		]);
+	});
+
+	it("balances shards by recorded durations, when provided", async () => {
+		const durations = {
+			[`${testDir}/slow.js`]: 1000,
+			"fast_1.js": 100,
+			"fast_2.js": 100,
+		};
+
+		assert.equal(await allShardsAsync([ "fast_1.js", "fast_2.js", "slow.js", "unknown.js" ], 2, durations), [
+			[ "slow.js" ],
+			[ "fast_1.js", "fast_2.js", "unknown.js" ],
+		], "modules without durations should use the average duration");
+	});
+
+	it("returns modules in the order provided", async () => {
+		const modules = [ "c.js", "a.js", "b.js" ];
+		assert.equal(await allShardsAsync(modules, 1), [ modules ]);
+	});
+
+	it("splits modules the same way regardless of the order they're provided", async () => {
+		const shards1 = await allShardsAsync([ "a.js", "b.js", "c.js", "d.js" ], 2);
+		const shards2 = await allShardsAsync([ "d.js", "c.js", "b.js", "a.js" ], 2);
+
+		assert.equal(shards1.map(shard => shard.sort()), shards2.map(shard => shard.sort()));
+	});
+
+	it("allows more shards than modules", async () => {
+		assert.equal(await allShardsAsync([ "a.js" ], 3), [ [ "a.js" ], [], [] ]);
+	});
+
+	it("fails fast when shard options are invalid", async () => {
+		await assert.errorAsync(
+			() => selectShardAsync([], { index: 0, total: 0 }, testDir),
+			"Shard total must be a positive integer, but it was 0",
+		);
+		await assert.errorAsync(
+			() => selectShardAsync([], { index: 2, total: 2 }, testDir),
+			"Shard index must be an integer from 0 to 1, but it was 2",
+		);
+		await assert.errorAsync(
+			() => selectShardAsync([], { index: 0.5, total: 2 }, testDir),
+			"Shard index must be an integer from 0 to 1, but it was 0.5",
+		);
+	});
+
+	async function allShardsAsync(
+		modules: string[],
+		total: number,
+		durations?: Record<string, number>,
+	): Promise<string[][]> {
+		const modulePaths = modules.map(module => `${testDir}/${module}`);
+		const shards = await Promise.all(Array.from({ length: total }, (_, index) => (
+			selectShardAsync(modulePaths, { index, total, durations }, testDir)
+		)));
+		return shards.map(shard => shard.map(modulePath => path.relative(testDir, modulePath)));
+	}
+
+	async function writeFilesAsync(files: Record<string, string>) {
+		await Promise.all(Object.entries(files).map(async ([ relativePath, contents ]) => {
+			await fs.writeFile(`${testDir}/${relativePath}`, contents);
+		}));
+	}
+
+});
@@ -4,18 +4,23 @@ import {
 	beforeEach,
 	createFail,
 	createPass,
+	createSkip,
 	createSuite,
 	describe,
 	it,
 	TestStatus,
 } from "../../util/tests.js";
-import { TestRunner } from "./test_runner.js";
+import { TestRunner, WatchOptions } from "./test_runner.js";
 import path from "node:path";
 import { TestSuite } from "../tests/test_suite.js";
-import { TestCaseResult, TestResult, TestSuiteResult } from "../results/test_result.js";
+import { TestCaseResult, TestMark, TestResult, TestSuiteResult } from "../results/test_result.js";
 import fs from "node:fs/promises";
+import net from "node:net";
+import { pathToFileURL } from "node:url";
 import { Clock } from "../../infrastructure/clock.js";
-import { fromModulesAsync } from "./loader.js";
+import { FileWatcher } from "../../infrastructure/file_watcher.js";
+import { OutputCapture } from "../../infrastructure/output_capture.js";
+import { expandGlobsAsync, fromGlobsAsync, fromModulesAsync } from "./loader.js";
 
 // dependency: ../_renderer_custom.js
 
@@ -24,11 +29,12 @@ const CUSTOM_RENDERER_PATH = path.resolve(import.meta.dirname, "../_renderer_cus
 
 export default describe(() => {
 
+	let testDir: string;
 	let testModulePath: string;
 	let nonce = 1;
 
 	beforeEach(async ({ getConfig }) => {
-		const testDir = getConfig<string>("scratchDir");
+		testDir = getConfig<string>("scratchDir");
 
 		testModulePath = `${testDir}/_test_runner_module_${nonce++}.js`;
 		await deleteTempFilesAsync(testDir);
@@ -109,6 +115,77 @@ export default describe(() => {
 			assert.equal(result.errorMessage, `Test module doesn't export a test suite: ${testModulePath}`);
 		});
 
+		it("loads TypeScript modules when Node.js supports type stripping", async () => {
+			const tsModulePath = await writeTypeScriptTestModuleAsync();
+
+			const suite = await fromModulesAsync([ tsModulePath ]);
+			const result = (await suite.runAsync()).allTests()[0];
+
+			assert.equal(result.filename, tsModulePath);
+			if (process.features.typescript) {
+				assert.equal(result.errorMessage, "typed value: 42");
+			}
+			else {
+				assert.equal(
+					result.errorMessage,
+					"Test module is TypeScript, but this version of Node.js doesn't support type stripping " +
+						`(use Node.js 22.18+, or start Node.js with --experimental-strip-types): ${tsModulePath}`,
+				);
+			}
+		});
+
+		it("creates test suite from glob patterns", async () => {
+			await writeTestModuleAsync("");
+
+			const suite = await fromGlobsAsync([ "_test_runner_module_*.js" ], { cwd: testDir });
+
+			assert.dotEquals(await suite.runAsync(),
+				createSuite({ tests: [
+					createSuite({ tests: [ createPass({ name: "test", filename: testModulePath }) ], filename: testModulePath }),
+				]}),
+			);
+		});
+
+		it("expands glob patterns into sorted absolute paths without duplicates", async () => {
+			await writeFilesAsync([ "b/_b_test.js", "a/_a_test.js", "a/nested/_c_test.js", "a/not_a_test.js" ]);
+
+			const paths = await expandGlobsAsync([ "**/_*_test.js", "a/_a_test.js" ], { cwd: testDir });
+
+			assert.equal(paths, [
+				`${testDir}/a/_a_test.js`,
+				`${testDir}/a/nested/_c_test.js`,
+				`${testDir}/b/_b_test.js`,
+			]);
+		});
+
+		it("ignores files that match ignore patterns", async () => {
+			await writeFilesAsync([ "a/_a_test.js", "node_modules/_b_test.js", "c/_c_test.js" ]);
+
+			const paths = await expandGlobsAsync([ "**/_*_test.js" ], {
+				cwd: testDir,
+				ignore: [ "node_modules/**", `${testDir}/c/**` ],
+			});
+
+			assert.equal(paths, [ `${testDir}/a/_a_test.js` ]);
+		});
+
+		it("doesn't include directories that match glob patterns", async () => {
+			await writeFilesAsync([ "_a_test.js/_b_test.js" ]);
+
+			const paths = await expandGlobsAsync([ "**/_*_test.js" ], { cwd: testDir });
+
+			assert.equal(paths, [ `${testDir}/_a_test.js/_b_test.js` ]);
+		});
+
+		it("resolves glob patterns against the current directory by default", async () => {
+			await writeFilesAsync([ "_a_test.js" ]);
+
+			const relativeDir = path.relative(process.cwd(), testDir);
+			const paths = await expandGlobsAsync([ `${relativeDir}/_*_test.js` ]);
+
+			assert.equal(paths, [ `${testDir}/_a_test.js` ]);
+		});
+
 		it("triggers onTestCaseResult when module load fails", async () => {
 			let result: TestCaseResult | undefined;
 			function onTestCaseResult(_result: TestCaseResult) {
@@ -124,6 +201,397 @@ export default describe(() => {
 	});
 
 
+	describe("glob patterns", () => {
+
+		it("expands glob patterns when running tests", async () => {
+			const { runner } = await createAsync();
+			await writeTestModuleAsync(`throw new Error("tests ran");`);
+
+			const pattern = [ "_test_runner_module_*.js" ];
+			const results = [
+				await runner.runInCurrentProcessAsync(pattern, { glob: { cwd: testDir } }),
+				await runner.runInChildProcessAsync(pattern, { glob: { cwd: testDir } }),
+				await runner.runInParallelAsync(pattern, { glob: { cwd: testDir } }),
+				await runner.runInWorkerThreadAsync(pattern, { glob: { cwd: testDir } }),
+			];
+
+			results.forEach(result => assertFailureMessage(result, "tests ran"));
+		});
+
+		it("uses the current directory when glob is true", async () => {
+			const { runner } = await createAsync();
+			await writeTestModuleAsync(`throw new Error("tests ran");`);
+
+			const pattern = path.relative(process.cwd(), testModulePath);
+			const results = await runner.runInChildProcessAsync([ pattern ], { glob: true });
+
+			assertFailureMessage(results, "tests ran");
+		});
+
+	});
+
+
+	describe("changed files", () => {
+
+		it("finds test modules that depend on changed files", async () => {
+			const { runner } = await createAsync();
+			const [ modulePath0, modulePath1 ] = await writeParallelTestModulesAsync([ "", "" ]);
+			const dependencyPath = `${testDir}/dependency.js`;
+			await fs.writeFile(dependencyPath, "");
+			await fs.appendFile(modulePath1!, `import "./dependency.js";`);
+
+			assert.equal(
+				await runner.findDependentModulesAsync([ modulePath0!, modulePath1! ], [ dependencyPath ]),
+				[ modulePath1 ],
+				"absolute paths",
+			);
+			assert.equal(
+				await runner.findDependentModulesAsync([ "_*.js" ], [ dependencyPath ], { glob: { cwd: testDir } }),
+				[ modulePath1 ],
+				"glob patterns",
+			);
+		});
+
+		it("only runs test modules that depend on changed files", async () => {
+			const { runner } = await createAsync();
+			const modulePaths = await writeParallelTestModulesAsync([
+				`it("test 0", () => {});`,
+				`it("test 1", () => {});`,
+			]);
+
+			const options = { changedFiles: [ modulePaths[1]! ] };
+			const results = [
+				await runner.runInCurrentProcessAsync(modulePaths, options),
+				await runner.runInChildProcessAsync(modulePaths, options),
+				await runner.runInParallelAsync(modulePaths, options),
+				await runner.runInWorkerThreadAsync(modulePaths, options),
+			];
+
+			results.forEach(result => {
+				assert.equal(result.allTests().map(test => test.name), [ [ "test 1" ] ]);
+			});
+		});
+
+	});
+
+
+	describe("sharding", () => {
+
+		it("only runs the test modules in the requested shard", async () => {
+			const { runner } = await createAsync();
+			const modulePaths = await writeParallelTestModulesAsync([
+				`it("test 0", () => {});`,
+				`it("test 1", () => {});`,
+			]);
+
+			const shardResults = await Promise.all([ 0, 1 ].map(index => (
+				runner.runInChildProcessAsync(modulePaths, { shard: { index, total: 2 } })
+			)));
+
+			shardResults.forEach((result, i) => assert.equal(result.allTests().length, 1, `shard ${i}`));
+			const merged = TestSuiteResult.merge(shardResults);
+			assert.equal(merged.allTests().map(test => test.name).sort(), [ [ "test 0" ], [ "test 1" ] ]);
+		});
+
+	});
+
+
+	describe("filter", () => {
+
+		it("only runs tests whose names match the filter", async () => {
+			const { runner } = await createAsync();
+			const modulePaths = await writeParallelTestModulesAsync([
+				`it("test 1", () => {}); it("other", () => {});`,
+				`it("test 2", () => {});`,
+			]);
+
+			const options = { filter: /^test/ };
+			const results = [
+				await runner.runInChildProcessAsync(modulePaths, options),
+				await runner.runInParallelAsync(modulePaths, options),
+				await runner.runInWorkerThreadAsync(modulePaths, options),
+			];
+
+			results.forEach(result => {
+				assert.equal(result.allMatchingTests(TestStatus.pass).map(test => test.name), [ [ "test 1" ], [ "test 2" ] ]);
+				assert.equal(result.allMatchingTests(TestStatus.skip).map(test => test.name), [ [ "other" ] ]);
+			});
+		});
+
+	});
+
+
+	describe("random order", () => {
+
+		it("shuffles modules and tests the same way in every kind of run, and records the seed", async () => {
+			const { runner } = await createAsync();
+			const modulePaths = await writeParallelTestModulesAsync([
+				`it("test 0a", () => {}); it("test 0b", () => {}); it("test 0c", () => {});`,
+				`it("test 1a", () => {}); it("test 1b", () => {}); it("test 1c", () => {});`,
+				`it("test 2a", () => {}); it("test 2b", () => {}); it("test 2c", () => {});`,
+			]);
+
+			const options = { order: "random", seed: 42 } as const;
+			const childResult = await runner.runInChildProcessAsync(modulePaths, options);
+			const workerResult = await runner.runInWorkerThreadAsync(modulePaths, options);
+			const parallelResult = await runner.runInParallelAsync(modulePaths, { ...options, workers: 1 });
+
+			const declaredOrder = modulePaths.flatMap((_, i) => [ `test ${i}a`, `test ${i}b`, `test ${i}c` ]);
+			const childOrder = testNames(childResult);
+			assert.notEqual(childOrder, declaredOrder, "should be shuffled");
+			assert.equal(testNames(workerResult), childOrder, "worker thread");
+			modulePaths.forEach((_, i) => {
+				// parallel runs keep results in the same order as the modules, so compare each module separately
+				const inModule = (name: string | undefined) => name?.startsWith(`test ${i}`);
+				assert.equal(
+					testNames(parallelResult).filter(inModule),
+					childOrder.filter(inModule),
+					`parallel, module ${i}`,
+				);
+			});
+
+			[ childResult, workerResult, parallelResult ].forEach(result => assert.equal(result.seed, 42));
+		});
+
+		it("records the seed when the child process crashes", async () => {
+			const { runner } = await createAsync();
+			await writeTestModuleAsync(`process.exit(1);`);
+
+			const result = await runner.runInChildProcessAsync([ testModulePath ], { order: "random", seed: 42 });
+
+			assert.equal(result.seed, 42);
+		});
+
+		function testNames(result: TestSuiteResult) {
+			return result.allTests().map(test => test.name.at(-1));
+		}
+
+	});
+
+
+	describe("bail", () => {
+
+		it("marks remaining tests as 'not run' after too many failures, in every kind of run", async () => {
+			const { runner } = await createAsync();
+			const modulePaths = await writeParallelTestModulesAsync([
+				`it("fail", () => { throw new Error("my error"); }); it("after fail", () => {});`,
+				`it("other module", () => {});`,
+			]);
+
+			const options = { bail: 1 };
+			const results = [
+				await runner.runInChildProcessAsync(modulePaths, options),
+				await runner.runInParallelAsync(modulePaths, { ...options, workers: 1 }),
+				await runner.runInWorkerThreadAsync(modulePaths, options),
+			];
+
+			results.forEach(result => {
+				assert.equal(result.allMatchingTests(TestStatus.fail).map(test => test.name), [ [ "fail" ] ]);
+				assert.equal(
+					result.allTests().filter(test => test.isNotRun()).map(test => test.name),
+					[ [ "after fail" ], [ "other module" ] ],
+				);
+			});
+		});
+
+		it("stops other workers when tests run in parallel", async () => {
+			const { runner } = await createAsync();
+			const modulePaths = await writeParallelTestModulesAsync([
+				`it("fail", () => { throw new Error("my error"); });`,
+				`
+					it("slow", async () => await new Promise(resolve => setTimeout(resolve, 200)));
+					it("after slow", () => {});
+				`,
+			]);
+
+			const result = await runner.runInParallelAsync(modulePaths, { bail: 1, workers: 2 });
+
+			assert.equal(result.allMatchingTests(TestStatus.pass).map(test => test.name), [ [ "slow" ] ]);
+			assert.equal(result.allTests().filter(test => test.isNotRun()).map(test => test.name), [ [ "after slow" ] ]);
+		});
+
+	});
+
+
+	describe("global setup", () => {
+
+		it("runs setup before test modules load and teardown after they run, in every kind of run", async () => {
+			const { runner } = await createAsync();
+			const { setupPath, logPath } = await writeGlobalSetupModuleAsync();
+			const modulePaths = await writeParallelTestModulesAsync([`
+				const setupAtLoad = globalThis.globalSetupValue;
+				it("test", ({ getConfig }) => {
+					throw new Error(\`\${setupAtLoad}, \${getConfig("fromSetup")}, \${getConfig("fromCaller")}\`);
+				});
+			`]);
+
+			const options = { globalSetup: [ setupPath ], config: { fromCaller: "caller config" } };
+			const runs = {
+				"current process": () => runner.runInCurrentProcessAsync(modulePaths, options),
+				"child process": () => runner.runInChildProcessAsync(modulePaths, options),
+				"worker thread": () => runner.runInWorkerThreadAsync(modulePaths, options),
+			};
+
+			for (const [ name, runAsync ] of Object.entries(runs)) {
+				await fs.rm(logPath, { force: true });
+				const result = await runAsync();
+
+				assertFailureMessage(result, "set up, setup config, caller config");
+				assert.equal(await fs.readFile(logPath, "utf8"), "setup\nteardown\n", name);
+			}
+		});
+
+		it("runs setup once per run, and shares its config with every worker, in parallel and resilient runs", async () => {
+			const { runner } = await createAsync();
+			const { setupPath, logPath } = await writeGlobalSetupModuleAsync();
+			const modulePaths = await writeParallelTestModulesAsync([
+				`it("test 1", ({ getConfig }) => { throw new Error(getConfig("fromSetup")); });`,
+				`it("test 2", ({ getConfig }) => { throw new Error(getConfig("fromSetup")); });`,
+				`it("test 3", ({ getConfig }) => { throw new Error(getConfig("fromSetup")); });`,
+			]);
+
+			const options = { globalSetup: [ setupPath ] };
+			const runs = {
+				"parallel": () => runner.runInParallelAsync(modulePaths, { ...options, workers: 2 }),
+				"resilient": () => runner.runInChildProcessAsync(modulePaths, { ...options, resilient: true }),
+			};
+
+			for (const [ name, runAsync ] of Object.entries(runs)) {
+				await fs.rm(logPath, { force: true });
+				const result = await runAsync();
+
+				const messages = result.allTests().map(test => test.errorMessage);
+				assert.equal(messages, [ "setup config", "setup config", "setup config" ], name);
+				assert.equal(await fs.readFile(logPath, "utf8"), "setup\nteardown\n", name);
+			}
+		});
+
+		it("loads setup modules fresh every run, in parallel and resilient runs", async () => {
+			const { runner } = await createAsync();
+			const setupPath = `${testModulePath}_setup.js`;
+			const modulePaths = await writeParallelTestModulesAsync([
+				`it("test", ({ getConfig }) => { throw new Error(getConfig("fromSetup")); });`,
+			]);
+
+			const options = { globalSetup: [ setupPath ] };
+			const runs = {
+				"parallel": () => runner.runInParallelAsync(modulePaths, options),
+				"resilient": () => runner.runInChildProcessAsync(modulePaths, { ...options, resilient: true }),
+			};
+
+			for (const [ name, runAsync ] of Object.entries(runs)) {
+				await fs.writeFile(setupPath, `export function setup() { return { fromSetup: "before edit" }; }`);
+				assert.equal(getTestResult(await runAsync()).errorMessage, "before edit", name);
+
+				await fs.writeFile(setupPath, `export function setup() { return { fromSetup: "after edit" }; }`);
+				assert.equal(getTestResult(await runAsync()).errorMessage, "after edit", name);
+			}
+		});
+
+		it("checks config against the schema before adding config from setup, in every kind of run", async () => {
+			const { runner } = await createAsync();
+			const { setupPath } = await writeGlobalSetupModuleAsync();
+			const modulePaths = await writeParallelTestModulesAsync([`
+				it("test", ({ getConfig }) => {
+					throw new Error(\`\${getConfig("fromSetup")}, \${getConfig("fromCaller")}\`);
+				});
+			`]);
+
+			const configSchema = { fromCaller: String };
+			const options = { globalSetup: [ setupPath ], config: { fromCaller: "caller config" }, configSchema };
+			const badOptions = { ...options, config: { fromCaller: 42 } };
+			const runs = {
+				"current process": (opts: typeof options) => runner.runInCurrentProcessAsync(modulePaths, opts),
+				"child process": (opts: typeof options) => runner.runInChildProcessAsync(modulePaths, opts),
+				"parallel": (opts: typeof options) => runner.runInParallelAsync(modulePaths, opts),
+				"worker thread": (opts: typeof options) => runner.runInWorkerThreadAsync(modulePaths, opts),
+			};
+
+			for (const [ name, runAsync ] of Object.entries(runs)) {
+				assertFailureMessage(await runAsync(options), "setup config, caller config");
+				await assert.errorAsync(
+					() => runAsync(badOptions as unknown as typeof options),
+					"config.fromCaller must be a string, but it was a number",
+					name,
+				);
+			}
+		});
+
+		it("fails the test run when setup fails", async () => {
+			const { runner } = await createAsync();
+			const setupPath = `${testModulePath}_setup.js`;
+			await fs.writeFile(setupPath, `export function setup() { throw new Error("my error"); }`);
+			await writeTestModuleAsync(`// passes`);
+
+			await assert.errorAsync(
+				() => runner.runInChildProcessAsync([ testModulePath ], { globalSetup: [ setupPath ] }),
+				"Ergotest worker process encountered exception",
+			);
+			await assert.errorAsync(
+				() => runner.runInParallelAsync([ testModulePath ], { globalSetup: [ setupPath ] }),
+				"Ergotest worker process encountered exception",
+				"parallel",
+			);
+		});
+
+		it("runs teardown when the test run fails", async () => {
+			const { runner } = await createAsync();
+			const { setupPath, logPath } = await writeGlobalSetupModuleAsync();
+			await writeTestModuleAsync(`// passes`);
+
+			await assert.errorAsync(
+				() => runner.runInChildProcessAsync([ testModulePath ], { globalSetup: [ setupPath ], bail: 0 }),
+				"Ergotest worker process encountered exception",
+			);
+			assert.equal(await fs.readFile(logPath, "utf8"), "setup\nteardown\n");
+		});
+
+		async function writeGlobalSetupModuleAsync() {
+			const setupPath = `${testModulePath}_setup.js`;
+			const logPath = `${testModulePath}_setup.log`;
+			await fs.writeFile(setupPath, `
+				import fs from "node:fs";
+
+				export function setup() {
+					fs.appendFileSync("${logPath}", "setup\\n");
+					globalThis.globalSetupValue = "set up";
+					return { fromSetup: "setup config" };
+				}
+
+				export function teardown() {
+					delete globalThis.globalSetupValue;
+					fs.appendFileSync("${logPath}", "teardown\\n");
+				}
+			`);
+			return { setupPath, logPath };
+		}
+
+	});
+
+
+	describe("leak detection", () => {
+
+		it("reports leaked resources in every kind of run", async () => {
+			const { runner } = await createAsync();
+			const modulePaths = await writeParallelTestModulesAsync([
+				`it("leaks", () => { setTimeout(() => {}, 100); });`,
+			]);
+
+			const options = { detectLeaks: "fail" } as const;
+			const results = [
+				await runner.runInChildProcessAsync(modulePaths, options),
+				await runner.runInParallelAsync(modulePaths, options),
+				await runner.runInWorkerThreadAsync(modulePaths, options),
+			];
+
+			results.forEach(result => {
+				assert.includes(getTestResult(result).errorMessage, "Test leaked 1 active resource");
+			});
+		});
+
+	});
+
+
 	describe("current process", () => {
 
 		it("runs test modules and passes through config", async () => {
@@ -170,6 +638,20 @@ export default describe(() => {
 				assertFailureMessage(results, "my_config");
 			});
 
+			it("fails fast if config doesn't match config schema", async () => {
+				const options = {
+					config: { prot: 5432 },
+					configSchema: { port: Number },
+				};
+				const { runner } = await createAsync();
+				await writeTestModuleAsync(`// passes`);
+
+				await assert.errorAsync(
+					() => runner.runInChildProcessAsync([ testModulePath ], options),
+					"config.port must be a number, but it was undefined",
+				);
+			});
+
 			it("supports custom error rendering", async () => {
 				const { runner } = await createAsync();
 
@@ -181,6 +663,18 @@ export default describe(() => {
 				assert.equal(getTestResult(results).errorRender, "custom rendering");
 			});
 
+			it("captures test output", async () => {
+				const { runner } = await createAsync();
+
+				await writeTestModuleAsync(`
+					console.log("my output");
+					throw new Error("my error");
+				`);
+				const results = await runner.runInChildProcessAsync([ testModulePath ]);
+
+				assert.equal(getTestResult(results).output, "my output\n");
+			});
+
 			it("notifies caller of completed tests", async () => {
 				const { runner } = await createAsync();
 
@@ -279,6 +773,27 @@ export default describe(() => {
 				assertFailureMessage(results, "global should be undefined: undefined");
 			});
 
+			it("runs TypeScript modules, and highlights them in stack traces", async () => {
+				const { runner } = await createAsync();
+				const tsModulePath = await writeTypeScriptTestModuleAsync();
+
+				const results = await runner.runInChildProcessAsync([ tsModulePath ]);
+
+				const canStripTypes = process.features.typescript ||
+					process.allowedNodeEnvironmentFlags.has("--experimental-strip-types");
+				if (canStripTypes) {
+					assertFailureMessage(results, "typed value: 42");
+					const highlightedLines = (getTestResult(results).errorRender as string)
+						.split("\n")
+						.filter(line => line.includes("--> at"));
+					assert.equal(highlightedLines.length, 1, "should highlight test module");
+					assert.includes(highlightedLines[0], tsModulePath);
+				}
+				else {
+					assert.includes(getTestResult(results).errorMessage, "doesn't support type stripping");
+				}
+			});
+
 			it("supports process.chdir(), which isn't allowed in Worker threads", async () => {
 				const { runner } = await createAsync();
 
@@ -293,9 +808,144 @@ export default describe(() => {
 
 		});
 
+		describe("startup options", () => {
+
+			it("passes command-line options to the child process", async () => {
+				const { runner } = await createAsync();
+
+				await writeTestModuleAsync(`
+					throw new Error("has option: " + process.execArgv.includes("--max-old-space-size=123"));
+				`);
+				const results = await runner.runInChildProcessAsync([ testModulePath ], {
+					execArgv: [ "--max-old-space-size=123" ],
+				});
+
+				assertFailureMessage(results, "has option: true");
+			});
+
+			it("adds environment variables to the current environment", async () => {
+				const { runner } = await createAsync();
+
+				await writeTestModuleAsync(`
+					throw new Error(process.env.ERGOTEST_TEST_VARIABLE + "; has PATH: " + (process.env.PATH !== undefined));
+				`);
+				const results = await runner.runInChildProcessAsync([ testModulePath ], {
+					env: { ERGOTEST_TEST_VARIABLE: "my value" },
+				});
+
+				assertFailureMessage(results, "my value; has PATH: true");
+			});
+
+			it("preloads modules using --import", async () => {
+				const { runner } = await createAsync();
+
+				const importPath = `${testModulePath}_import.js`;
+				await fs.writeFile(importPath, `globalThis.ergotestImported = "imported";`);
+				await writeTestModuleAsync(`throw new Error(globalThis.ergotestImported);`);
+				const results = await runner.runInChildProcessAsync([ testModulePath ], {
+					imports: [ pathToFileURL(importPath).href ],
+				});
+
+				assertFailureMessage(results, "imported");
+			});
+
+			it("passes startup options to parallel child processes", async () => {
+				const { runner } = await createAsync();
+
+				const modulePaths = await writeParallelTestModulesAsync([
+					`it("test", () => { throw new Error(process.env.ERGOTEST_TEST_VARIABLE); });`,
+					`it("test", () => { throw new Error(process.env.ERGOTEST_TEST_VARIABLE); });`,
+				]);
+				const results = await runner.runInParallelAsync(modulePaths, {
+					workers: 2,
+					env: { ERGOTEST_TEST_VARIABLE: "my value" },
+				});
+
+				assert.equal(results.allTests().map(test => test.errorMessage), [ "my value", "my value" ]);
+			});
+
+		});
+
+		describe("prewarming", () => {
+
+			it("uses prewarmed worker processes", async () => {
+				const { runner } = await createAsync();
+				await runner.prewarmAsync(1);
+				const readyTime = Date.now();   // prewarmAsync() resolves after the worker reports that it's ready
+
+				try {
+					await writeTestModuleAsync(
+						`throw new Error("worker started early: " + (performance.timeOrigin < ${readyTime}));`
+					);
+					const results = await runner.runInChildProcessAsync([ testModulePath ]);
+
+					assertFailureMessage(results, "worker started early: true");
+				}
+				finally {
+					await runner.shutdownAsync();
+				}
+			});
+
+			it("still gives each test run a fresh worker process", async () => {
+				const { runner } = await createAsync();
+				await runner.prewarmAsync(1);
+
+				try {
+					await writeTestModuleAsync(`throw new Error("module was cached, and shouldn't have been");`);
+					await runner.runInChildProcessAsync([ testModulePath ]);
+
+					await writeTestModuleAsync(`throw new Error("module was not cached");`);
+					const results = await runner.runInChildProcessAsync([ testModulePath ]);
+
+					assertFailureMessage(results, "module was not cached");
+				}
+				finally {
+					await runner.shutdownAsync();
+				}
+			});
+
+			it("starts worker processes on demand after shutting down", async () => {
+				const { runner } = await createAsync();
+				await runner.prewarmAsync(2);
+				await runner.shutdownAsync();
+
+				await writeTestModuleAsync(`throw new Error("tests ran");`);
+				const results = await runner.runInChildProcessAsync([ testModulePath ]);
+
+				assertFailureMessage(results, "tests ran");
+			});
+
+			it("doesn't use prewarmed worker processes when startup options are customized", async () => {
+				const { runner } = await createAsync();
+				await runner.prewarmAsync(1);
+
+				try {
+					await writeTestModuleAsync(`throw new Error("env: " + process.env.ERGOTEST_TEST_VARIABLE);`);
+					const results = await runner.runInChildProcessAsync([ testModulePath ], {
+						env: { ERGOTEST_TEST_VARIABLE: "my value" },
+					});
+
+					assertFailureMessage(results, "env: my value");
+				}
+				finally {
+					await runner.shutdownAsync();
+				}
+			});
+
+			it("fails fast if prewarm count isn't a non-negative integer", async () => {
+				const { runner } = await createAsync();
+
+				await assert.errorAsync(
+					() => runner.prewarmAsync(-1),
+					"Prewarm count must be a non-negative integer, but it was -1",
+				);
+			});
+
+		});
+
 		describe("watchdog", () => {
 
-			it("detects uncaught promise rejections", async () => {
+			it("detects uncaught promise rejections that can't be attributed to a test", async () => {
 				let notifications: TestCaseResult[] = [];
 				function onTestCaseResult(result: TestCaseResult) {
 					notifications.push(result);
@@ -307,8 +957,8 @@ export default describe(() => {
 				};
 				const { runner } = await createAsync();
 
-				await writeTestModuleAsync(`Promise.reject(new Error("my error"));`);
-				const results = await runner.runInChildProcessAsync([ testModulePath ], options);
+				const modulePaths = await writeParallelTestModulesAsync([ `Promise.reject(new Error("my error"));` ]);
+				const results = await runner.runInChildProcessAsync(modulePaths, options);
 
 				assert.dotEquals(results, createSuite({ tests: [
 					createFail({ name: "Unhandled error in tests", error: new Error("my error") }),
@@ -316,6 +966,85 @@ export default describe(() => {
 				assert.equal(getTestResult(results).errorRender, "custom rendering", "should use custom renderer");
 			});
 
+			it("fails the test that caused an unhandled promise rejection, and keeps running", async () => {
+				const { runner } = await createAsync();
+				const modulePaths = await writeParallelTestModulesAsync([`
+					it("test 1", () => { Promise.reject(new Error("my error")); });
+					it("test 2", () => {});
+				`]);
+
+				const results = await runner.runInChildProcessAsync(modulePaths, { renderer: CUSTOM_RENDERER_PATH });
+
+				assert.dotEquals(results, createSuite({ tests: [
+					createSuite({ filename: modulePaths[0], tests: [
+						createFail({ name: "test 1", filename: modulePaths[0], error: new Error("my error") }),
+						createPass({ name: "test 2", filename: modulePaths[0] }),
+					]}),
+				]}));
+				assert.equal(getTestResult(results).errorRender, "custom rendering", "should use custom renderer");
+			});
+
+			it("fails the test that caused an uncaught exception in a callback", async () => {
+				const { runner } = await createAsync();
+				const modulePaths = await writeParallelTestModulesAsync([`
+					it("test 1", async () => {
+						setTimeout(() => { throw new Error("my error"); }, 0);
+						await new Promise(resolve => setTimeout(resolve, 50));
+					});
+					it("test 2", () => {});
+				`]);
+
+				const results = await runner.runInChildProcessAsync(modulePaths);
+
+				assert.equal(results.allTests().map(test => [ test.name, test.status ]), [
+					[ [ "test 1" ], TestStatus.fail ],
+					[ [ "test 2" ], TestStatus.pass ],
+				]);
+				assertFailureMessage(results, "my error");
+			});
+
+			it("reports unhandled errors that happen after their test finished as separate failures", async () => {
+				const notifications: TestCaseResult[] = [];
+				const { runner } = await createAsync();
+				const modulePaths = await writeParallelTestModulesAsync([`
+					it("test 1", () => { setTimeout(() => { throw new Error("my error"); }, 10); });
+					it("test 2", async () => await new Promise(resolve => setTimeout(resolve, 100)));
+				`]);
+
+				const results = [
+					await runner.runInChildProcessAsync(modulePaths, { onTestCaseResult: (result) => notifications.push(result) }),
+					await runner.runInParallelAsync(modulePaths),
+				];
+
+				results.forEach(result => {
+					assert.equal(result.allTests().map(test => [ test.name, test.status ]), [
+						[ [ "test 1" ], TestStatus.pass ],
+						[ [ "test 2" ], TestStatus.pass ],
+						[ [ "test 1" ], TestStatus.fail ],
+					]);
+				});
+				assert.equal(notifications.map(result => result.status), [
+					TestStatus.pass,
+					TestStatus.fail,
+					TestStatus.pass,
+				], "should notify caller when error happens");
+			});
+
+			it("reports unhandled errors caused by beforeEach() as separate failures", async () => {
+				const { runner } = await createAsync();
+				const modulePaths = await writeParallelTestModulesAsync([`
+					beforeEach(() => { Promise.reject(new Error("my error")); });
+					it("test", () => {});
+				`]);
+
+				const results = await runner.runInChildProcessAsync(modulePaths);
+
+				assert.equal(results.allTests().map(test => [ test.name, test.status ]), [
+					[ [ "test" ], TestStatus.pass ],
+					[ [ "beforeEach()" ], TestStatus.fail ],
+				]);
+			});
+
 			it("detects infinite loops", async () => {
 				let notifications: TestCaseResult[] = [];
 				function onTestCaseResult(result: TestCaseResult) {
@@ -354,12 +1083,68 @@ export default describe(() => {
 				const results = await runner.runInChildProcessAsync([ testModulePath ], options);
 
 				assert.dotEquals(results, createSuite({ tests: [
-					createFail({ name: "Test runner watchdog", error: "Tests exited early (probably by calling `process.exit()`)" }),
+					createFail({
+						name: "test",
+						filename: testModulePath,
+						error: "Tests exited early (probably by calling `process.exit()`)",
+					}),
 				]}));
 				assert.equal(getTestResult(results).errorRender, "custom rendering", "should use custom renderer");
 				assert.equal(notifications[0]?.status, TestStatus.fail, "should notify caller");
 			});
 
+			it("names the running test and keeps earlier results when it detects an infinite loop", async () => {
+				let notifications: TestCaseResult[] = [];
+				function onTestCaseResult(result: TestCaseResult) {
+					notifications.push(result);
+				}
+				const { runner, clock } = await createAsync();
+				const testStarted = await listenForTestStartAsync();
+
+				await fs.writeFile(testModulePath, `
+					import { describe, it } from ` + `"${INDEX_PATH}";
+
+					export default describe(() => {
+						it("test 1", () => {});
+						it("test 2", async () => {
+							${testStarted.signalCode}
+							while (true);
+						});
+					});
+				`);
+				const resultsPromise = runner.runInChildProcessAsync([ testModulePath ], { onTestCaseResult });
+				await testStarted.waitAsync();
+				await clock.tickAsync(TestSuite.DEFAULT_TIMEOUT_IN_MS);
+				const results = await resultsPromise;
+
+				assert.dotEquals(results, createSuite({ tests: [
+					createPass({ name: "test 1", filename: testModulePath }),
+					createFail({ name: "test 2", filename: testModulePath, error: "Detected infinite loop in tests" }),
+				]}));
+				assert.equal(notifications.length, 2, "should notify caller of both tests");
+			});
+
+			it("blames the watchdog when no test is running", async () => {
+				const { runner } = await createAsync();
+
+				await fs.writeFile(testModulePath, `
+					import { describe, it } from ` + `"${INDEX_PATH}";
+
+					export default describe(() => {
+						it("test", () => {});
+						process.exit(0);
+					});
+				`);
+				const results = await runner.runInChildProcessAsync([ testModulePath ]);
+
+				assert.dotEquals(results, createSuite({ tests: [
+					createFail({
+						name: "Test runner watchdog",
+						error: "Tests exited early (probably by calling `process.exit()`)",
+					}),
+				]}));
+			});
+
 			it("doesn't trigger infinite loop detection when process exits early", async () => {
 				let notifications: TestCaseResult[] = [];
 				function onTestCaseResult(result: TestCaseResult) {
@@ -380,6 +1165,642 @@ export default describe(() => {
 
 		});
 
+		describe("resilient mode", () => {
+
+			it("fails the module that exited early and runs the remaining modules in a fresh process", async () => {
+				const { runner } = await createAsync();
+				const modulePaths = await writeParallelTestModulesAsync([
+					`it("test 1", () => {});`,
+					`it("test 2a", () => {}); it("test 2b", () => { process.exit(0); });`,
+					`it("test 3", () => {});`,
+				]);
+
+				const results = await runner.runInChildProcessAsync(modulePaths, { resilient: true });
+
+				assert.dotEquals(results, createSuite({ tests: [
+					createSuite({ filename: modulePaths[0], tests: [
+						createPass({ name: "test 1", filename: modulePaths[0] }),
+					]}),
+					createSuite({ filename: modulePaths[1], tests: [
+						createPass({ name: "test 2a", filename: modulePaths[1] }),
+						createFail({
+							name: "test 2b",
+							filename: modulePaths[1],
+							error: "Tests exited early (probably by calling `process.exit()`)",
+						}),
+					]}),
+					createSuite({ filename: modulePaths[2], tests: [
+						createPass({ name: "test 3", filename: modulePaths[2] }),
+					]}),
+				]}));
+			});
+
+			it("fails the module that entered an infinite loop and continues", async () => {
+				let notifications: TestCaseResult[] = [];
+				function onTestCaseResult(result: TestCaseResult) {
+					notifications.push(result);
+				}
+				const { runner, clock } = await createAsync();
+				const testStarted = await listenForTestStartAsync();
+				const modulePaths = await writeParallelTestModulesAsync([
+					`it("test 1", () => {});`,
+					`it("test 2", async () => { ${testStarted.signalCode} while (true); });`,
+					`it("test 3", () => {});`,
+				]);
+
+				const resultsPromise = runner.runInChildProcessAsync(modulePaths, { resilient: true, onTestCaseResult });
+				await testStarted.waitAsync();
+				await clock.tickAsync(TestSuite.DEFAULT_TIMEOUT_IN_MS);
+				const results = await resultsPromise;
+
+				assert.dotEquals(results, createSuite({ tests: [
+					createSuite({ filename: modulePaths[0], tests: [
+						createPass({ name: "test 1", filename: modulePaths[0] }),
+					]}),
+					createSuite({ filename: modulePaths[1], tests: [
+						createFail({ name: "test 2", filename: modulePaths[1], error: "Detected infinite loop in tests" }),
+					]}),
+					createSuite({ filename: modulePaths[2], tests: [
+						createPass({ name: "test 3", filename: modulePaths[2] }),
+					]}),
+				]}));
+				assert.equal(notifications.length, 3, "should notify caller of every test");
+			});
+
+			it("fails the module that exited early while loading", async () => {
+				const { runner } = await createAsync();
+				const modulePaths = await writeParallelTestModulesAsync([
+					`process.exit(0);`,
+					`it("test 2", () => {});`,
+				]);
+
+				const results = await runner.runInChildProcessAsync(modulePaths, { resilient: true });
+
+				assert.dotEquals(results, createSuite({ tests: [
+					createSuite({ filename: modulePaths[0], tests: [
+						createFail({
+							name: "Test runner watchdog",
+							filename: modulePaths[0],
+							error: "Tests exited early (probably by calling `process.exit()`)",
+						}),
+					]}),
+					createSuite({ filename: modulePaths[1], tests: [
+						createPass({ name: "test 2", filename: modulePaths[1] }),
+					]}),
+				]}));
+			});
+
+			it("fails the module that had an unhandled error that couldn't be attributed to a test", async () => {
+				const { runner } = await createAsync();
+				const modulePaths = await writeParallelTestModulesAsync([
+					`it("test 1", () => { queueMicrotask(() => { throw new Error("my error"); }); });`,
+					`it("test 2", () => {});`,
+				]);
+
+				const results = await runner.runInChildProcessAsync(modulePaths, { resilient: true });
+
+				assert.equal(results.tests.length, 2, "should have result for every module");
+				assert.equal(results.allTests().map(test => test.name), [
+					[ "Unhandled error in tests" ],
+					[ "test 2" ],
+				]);
+			});
+
+		});
+
+		describe("cancellation", () => {
+
+			it("kills the child process and returns partial results when signal is aborted", async () => {
+				const controller = new AbortController();
+				const { runner } = await createAsync();
+				const modulePaths = await writeParallelTestModulesAsync([
+					`it("test 1", () => {}); it("test 2", () => new Promise(() => {}));`,
+				]);
+
+				const results = await runner.runInChildProcessAsync(modulePaths, {
+					signal: controller.signal,
+					onTestCaseResult: () => controller.abort(),
+				});
+
+				assert.dotEquals(results, createSuite({ cancelled: true, tests: [
+					createPass({ name: "test 1", filename: modulePaths[0] }),
+				]}));
+			});
+
+			it("doesn't run tests if signal is already aborted", async () => {
+				const { runner } = await createAsync();
+				await writeTestModuleAsync(`// passes`);
+
+				const results = await runner.runInChildProcessAsync([ testModulePath ], { signal: AbortSignal.abort() });
+
+				assert.dotEquals(results, createSuite({ cancelled: true }));
+			});
+
+			it("supports cancellation in resilient mode", async () => {
+				const controller = new AbortController();
+				const { runner } = await createAsync();
+				const modulePaths = await writeParallelTestModulesAsync([
+					`it("test 1", () => {});`,
+					`it("test 2", () => new Promise(() => {}));`,
+				]);
+
+				const results = await runner.runInChildProcessAsync(modulePaths, {
+					resilient: true,
+					signal: controller.signal,
+					onTestCaseResult: () => controller.abort(),
+				});
+
+				assert.dotEquals(results, createSuite({ cancelled: true, tests: [
+					createPass({ name: "test 1", filename: modulePaths[0] }),
+				]}));
+			});
+
+		});
+
+	});
+
+
+	describe("parallel child processes", () => {
+
+		it("runs test modules and combines the results in module order", async () => {
+			const { runner } = await createAsync();
+			const modulePaths = await writeParallelTestModulesAsync([
+				`it("test 1", () => {});`,
+				`it("test 2", ({ getConfig }) => { throw new Error(getConfig("myConfig")); });`,
+				`it("test 3", () => {});`,
+			]);
+
+			const results = await runner.runInParallelAsync(modulePaths, {
+				workers: 2,
+				config: { myConfig: "my_config" },
+			});
+
+			assert.dotEquals(results, createSuite({ tests: [
+				createSuite({ filename: modulePaths[0], tests: [
+					createPass({ name: "test 1", filename: modulePaths[0] }),
+				]}),
+				createSuite({ filename: modulePaths[1], tests: [
+					createFail({ name: "test 2", filename: modulePaths[1], error: "my_config" }),
+				]}),
+				createSuite({ filename: modulePaths[2], tests: [
+					createPass({ name: "test 3", filename: modulePaths[2] }),
+				]}),
+			]}));
+		});
+
+		it("supports '.only' across modules", async () => {
+			const { runner } = await createAsync();
+			const modulePaths = await writeParallelTestModulesAsync([
+				`it("test 1", () => {});`,
+				`it.only("test 2", () => {});`,
+				`it("test 3", () => {});`,
+			]);
+
+			const results = await runner.runInParallelAsync(modulePaths, { workers: 2 });
+
+			assert.dotEquals(results, createSuite({ tests: [
+				createSuite({ filename: modulePaths[0], tests: [
+					createSkip({ name: "test 1", filename: modulePaths[0] }),
+				]}),
+				createSuite({ filename: modulePaths[1], tests: [
+					createPass({ name: "test 2", filename: modulePaths[1], mark: TestMark.only }),
+				]}),
+				createSuite({ filename: modulePaths[2], tests: [
+					createSkip({ name: "test 3", filename: modulePaths[2] }),
+				]}),
+			]}));
+		});
+
+		it("notifies caller of completed tests", async () => {
+			const { runner } = await createAsync();
+			const modulePaths = await writeParallelTestModulesAsync([
+				`it("test 1", () => {});`,
+				`it("test 2", () => {});`,
+			]);
+
+			const progress: TestResult[] = [];
+			const onTestCaseResult = (result: TestResult) => progress.push(result);
+			await runner.runInParallelAsync(modulePaths, { workers: 2, onTestCaseResult });
+
+			assert.equal(progress.length, 2);
+		});
+
+		it("handles more workers than modules", async () => {
+			const { runner } = await createAsync();
+			const modulePaths = await writeParallelTestModulesAsync([
+				`it("test", () => {});`,
+			]);
+
+			const results = await runner.runInParallelAsync(modulePaths, { workers: 4 });
+			assert.equal(results.count().pass, 1);
+		});
+
+		it("detects early process exit", async () => {
+			const { runner } = await createAsync();
+			const modulePaths = await writeParallelTestModulesAsync([
+				`it("test 1", () => {});`,
+				`it("test 2", () => { process.exit(0); });`,
+			]);
+
+			const results = await runner.runInParallelAsync(modulePaths, { workers: 1 });
+
+			assert.dotEquals(results, createSuite({ tests: [
+				createPass({ name: "test 1", filename: modulePaths[0] }),
+				createFail({
+					name: "test 2",
+					filename: modulePaths[1],
+					error: "Tests exited early (probably by calling `process.exit()`)",
+				}),
+			]}));
+		});
+
+		it("keeps earlier results when an unhandled error can't be attributed to a test", async () => {
+			const { runner } = await createAsync();
+			const modulePaths = await writeParallelTestModulesAsync([
+				`it("test 1", () => {});`,
+				`it("test 2", () => { queueMicrotask(() => { throw new Error("my error"); }); });`,
+			]);
+
+			const results = await runner.runInParallelAsync(modulePaths, { workers: 1 });
+
+			assert.dotEquals(results, createSuite({ tests: [
+				createPass({ name: "test 1", filename: modulePaths[0] }),
+				createFail({ name: "Unhandled error in tests", error: new Error("my error") }),
+			]}));
+		});
+
+		it("replaces crashed workers in resilient mode", async () => {
+			const { runner } = await createAsync();
+			const modulePaths = await writeParallelTestModulesAsync([
+				`it("test 1", () => { process.exit(0); });`,
+				`it("test 2", () => {});`,
+				`it("test 3", () => { process.exit(0); });`,
+				`it("test 4", () => {});`,
+			]);
+
+			const results = await runner.runInParallelAsync(modulePaths, { workers: 2, resilient: true });
+
+			assert.equal(results.tests.length, 4, "should have result for every module");
+			assert.equal(results.count().fail, 2, "failures");
+			assert.equal(results.count().pass, 2, "passes");
+		});
+
+		it("kills the child processes and returns partial results when signal is aborted", async () => {
+			const controller = new AbortController();
+			const { runner } = await createAsync();
+			const modulePaths = await writeParallelTestModulesAsync([
+				`it("test 1", () => {}); it("test 2", () => new Promise(() => {}));`,
+				`it("test 3", () => new Promise(() => {}));`,
+			]);
+
+			const results = await runner.runInParallelAsync(modulePaths, {
+				workers: 2,
+				signal: controller.signal,
+				onTestCaseResult: () => controller.abort(),
+			});
+
+			assert.dotEquals(results, createSuite({ cancelled: true, tests: [
+				createPass({ name: "test 1", filename: modulePaths[0] }),
+			]}));
+		});
+
+		it("fails fast if worker count isn't a positive integer", async () => {
+			const { runner } = await createAsync();
+
+			await assert.errorAsync(
+				() => runner.runInParallelAsync([], { workers: 0 }),
+				"Worker count must be a positive integer, but it was 0",
+			);
+		});
+
+	});
+
+
+	describe("worker thread", () => {
+
+		it("runs test modules", async () => {
+			const { runner } = await createAsync();
+			await writeTestModuleAsync(`// passes`);
+
+			const results = await runner.runInWorkerThreadAsync([ testModulePath ]);
+
+			assert.equal(results, createSuite({ tests: [
+				createSuite({ filename: testModulePath, tests: [
+					createPass({ name: "test", filename: testModulePath })
+				]}),
+			]}));
+		});
+
+		it("passes through config and notifies caller of completed tests", async () => {
+			const { runner } = await createAsync();
+
+			const progress: TestResult[] = [];
+			const onTestCaseResult = (result: TestResult) => progress.push(result);
+
+			await writeTestModuleAsync(`throw new Error(getConfig("myConfig"));`);
+			const results = await runner.runInWorkerThreadAsync([ testModulePath ], {
+				config: { myConfig: "my_config" },
+				onTestCaseResult,
+			});
+
+			assertFailureMessage(results, "my_config");
+			assert.equal(progress.length, 1);
+		});
+
+		it("does not cache test modules from run to run", async () => {
+			const { runner } = await createAsync();
+
+			await writeTestModuleAsync(`throw new Error("module was cached, and shouldn't have been");`);
+			await runner.runInWorkerThreadAsync([ testModulePath ]);
+
+			await writeTestModuleAsync(`throw new Error("module was not cached");`);
+			const results = await runner.runInWorkerThreadAsync([ testModulePath ]);
+
+			assertFailureMessage(results, "module was not cached");
+		});
+
+		it("detects uncaught promise rejections", async () => {
+			const { runner } = await createAsync();
+
+			const modulePaths = await writeParallelTestModulesAsync([ `Promise.reject(new Error("my error"));` ]);
+			const results = await runner.runInWorkerThreadAsync(modulePaths);
+
+			assert.dotEquals(results, createSuite({ tests: [
+				createFail({ name: "Unhandled error in tests", error: new Error("my error") }),
+			]}));
+		});
+
+		it("detects early exit", async () => {
+			const { runner } = await createAsync();
+
+			await writeTestModuleAsync(`process.exit(0);`);
+			const results = await runner.runInWorkerThreadAsync([ testModulePath ]);
+
+			assert.dotEquals(results, createSuite({ tests: [
+				createFail({
+					name: "test",
+					filename: testModulePath,
+					error: "Tests exited early (probably by calling `process.exit()`)",
+				}),
+			]}));
+		});
+
+		it("terminates the worker thread when signal is aborted", async () => {
+			const { runner } = await createAsync();
+
+			await writeTestModuleAsync(`return new Promise(() => {});`);
+			const results = await runner.runInWorkerThreadAsync([ testModulePath ], { signal: AbortSignal.timeout(100) });
+
+			assert.dotEquals(results, createSuite({ cancelled: true }));
+		});
+
+		it("detects infinite loops", async () => {
+			const { runner, clock } = await createAsync();
+
+			await writeTestModuleAsync(`while (true);`);
+			const resultsPromise = runner.runInWorkerThreadAsync([ testModulePath ]);
+			await clock.tickAsync(TestSuite.DEFAULT_TIMEOUT_IN_MS);
+			const results = await resultsPromise;
+
+			assert.equal(results.count().fail, 1);
+			assert.equal(getTestResult(results).errorMessage, "Detected infinite loop in tests");
+		});
+
+	});
+
+
+	describe("watch mode", () => {
+
+		const DEBOUNCE = 100;
+
+		it("runs all test modules, then reruns the modules that depend on changed files", async () => {
+			const { runner, clock, fileWatcher } = await createAsync();
+			const modulePaths = await writeParallelTestModulesAsync([
+				`it("test 0", () => {});`,
+				`it("test 1", () => {});`,
+			]);
+			const dependencyPath = `${testDir}/dependency.js`;
+			await fs.writeFile(dependencyPath, "");
+			await fs.appendFile(modulePaths[1]!, `import "./dependency.js";`);
+
+			const { watcher, started, completed } = watch(runner, modulePaths, { watchDir: testDir, debounce: DEBOUNCE });
+			try {
+				await waitUntilAsync(() => completed.length === 1);
+				assert.equal(started, [ modulePaths ], "first run should run all modules");
+				assert.equal(completed[0]!.allTests().map(test => test.name), [ [ "test 0" ], [ "test 1" ] ]);
+
+				fileWatcher.simulateChange(dependencyPath);
+				await clock.tickAsync(DEBOUNCE);
+				await waitUntilAsync(() => completed.length === 2);
+				assert.equal(started[1], [ modulePaths[1] ], "second run should only run dependent modules");
+				assert.equal(completed[1]!.allTests().map(test => test.name), [ [ "test 1" ] ]);
+			}
+			finally {
+				await watcher.closeAsync();
+			}
+		});
+
+		it("combines changes that happen close together into a single run", async () => {
+			const { runner, clock, fileWatcher } = await createAsync();
+			const modulePaths = await writeParallelTestModulesAsync([ "", "" ]);
+
+			const { watcher, started, completed } = watch(runner, modulePaths, { watchDir: testDir, debounce: DEBOUNCE });
+			try {
+				await waitUntilAsync(() => completed.length === 1);
+
+				fileWatcher.simulateChange(modulePaths[0]!);
+				await clock.tickAsync(DEBOUNCE - 1);
+				fileWatcher.simulateChange(modulePaths[1]!);
+				await clock.tickAsync(DEBOUNCE - 1);
+				assert.equal(started.length, 1, "shouldn't start a run while changes are still happening");
+
+				await clock.tickAsync(1);
+				await waitUntilAsync(() => completed.length === 2);
+				assert.equal(started[1], modulePaths);
+			}
+			finally {
+				await watcher.closeAsync();
+			}
+		});
+
+		it("doesn't start a run when no test modules depend on the changed files", async () => {
+			const { runner, clock, fileWatcher } = await createAsync();
+			const modulePaths = await writeParallelTestModulesAsync([ "" ]);
+
+			const { watcher, started, completed } = watch(runner, modulePaths, { watchDir: testDir, debounce: DEBOUNCE });
+			try {
+				await waitUntilAsync(() => completed.length === 1);
+
+				fileWatcher.simulateChange(`${testDir}/unrelated.js`);
+				await clock.tickAsync(DEBOUNCE);
+				fileWatcher.simulateChange(modulePaths[0]!);
+				await clock.tickAsync(DEBOUNCE);
+				await waitUntilAsync(() => completed.length === 2);
+
+				assert.equal(started, [ modulePaths, modulePaths ]);
+			}
+			finally {
+				await watcher.closeAsync();
+			}
+		});
+
+		it("searches for glob patterns again before each run, and watches the glob directory by default", async () => {
+			const { runner, clock, fileWatcher } = await createAsync();
+			const [ modulePath0 ] = await writeParallelTestModulesAsync([ "" ]);
+
+			const { watcher, started, completed } = watch(runner, [ "_*.js" ], {
+				glob: { cwd: testDir },
+				debounce: DEBOUNCE,
+			});
+			try {
+				await waitUntilAsync(() => completed.length === 1);
+				assert.equal(started, [ [ modulePath0 ] ], "first run");
+
+				const newModulePath = `${testDir}/_new_test.js`;
+				await fs.copyFile(modulePath0!, newModulePath);
+				fileWatcher.simulateChange(newModulePath);
+				await clock.tickAsync(DEBOUNCE);
+				await waitUntilAsync(() => completed.length === 2);
+				assert.equal(started[1], [ newModulePath ], "second run");
+			}
+			finally {
+				await watcher.closeAsync();
+			}
+		});
+
+		it("cancels the run in progress when files change, and runs its modules again", async () => {
+			const { runner, clock, fileWatcher } = await createAsync();
+			const modulePaths = await writeParallelTestModulesAsync([
+				`it("test 0", () => {});`,
+				`it("test 1", () => new Promise(() => {}));`,
+			]);
+			const testNames: string[] = [];
+
+			const { watcher, started, completed } = watch(runner, modulePaths, {
+				watchDir: testDir,
+				debounce: DEBOUNCE,
+				onTestCaseResult: result => testNames.push(result.name.join(" > ")),
+			});
+			try {
+				await waitUntilAsync(() => testNames.length === 1);
+				await fs.writeFile(modulePaths[1]!, (await fs.readFile(modulePaths[0]!, "utf8")).replace("test 0", "test 1"));
+				fileWatcher.simulateChange(`${testDir}/unrelated.js`);
+				await clock.tickAsync(DEBOUNCE);
+				await waitUntilAsync(() => completed.length === 2);
+
+				assert.dotEquals(completed[0], createSuite({ cancelled: true, tests: [
+					createPass({ name: "test 0", filename: modulePaths[0] }),
+				]}), "cancelled run");
+				assert.equal(started[1], modulePaths, "modules in next run");
+				assert.equal(completed[1]!.count().pass, 2, "next run");
+			}
+			finally {
+				await watcher.closeAsync();
+			}
+		});
+
+		it("stops watching and cancels the run in progress when closed", async () => {
+			const { runner, fileWatcher } = await createAsync();
+			const modulePaths = await writeParallelTestModulesAsync([
+				`it("test", () => new Promise(() => {}));`,
+			]);
+
+			const { watcher, started, completed } = watch(runner, modulePaths, { watchDir: testDir, debounce: DEBOUNCE });
+			await waitUntilAsync(() => started.length === 1);
+			assert.equal(fileWatcher.watchCount, 1, "should watch before closing");
+
+			await watcher.closeAsync();
+			assert.equal(fileWatcher.watchCount, 0, "should stop watching after closing");
+			assert.equal(completed.length, 1, "should wait for cancelled run to complete");
+			assert.equal(completed[0]!.cancelled, true, "run should be cancelled");
+		});
+
+		it("reports errors", async () => {
+			const { runner } = await createAsync();
+			await writeTestModuleAsync(`// passes`);
+			const errors: unknown[] = [];
+
+			const { watcher, completed } = watch(runner, [ testModulePath ], {
+				watchDir: testDir,
+				renderer: "./no_such_renderer.js",
+				onError: error => errors.push(error),
+			});
+			await waitUntilAsync(() => errors.length === 1);
+			await watcher.closeAsync();
+
+			assert.match((errors[0] as Error).message, /Renderer module not found/);
+			assert.equal(completed, [], "shouldn't complete run");
+		});
+
+		it("reports errors watching the file system", async () => {
+			const { runner, fileWatcher } = await createAsync();
+			await writeTestModuleAsync(`// passes`);
+			const errors: unknown[] = [];
+
+			const { watcher, completed } = watch(runner, [ testModulePath ], {
+				watchDir: testDir,
+				onError: error => errors.push(error),
+			});
+			try {
+				fileWatcher.simulateError(new Error("my error"));
+				assert.equal(errors, [ new Error("my error") ]);
+
+				await waitUntilAsync(() => completed.length === 1);
+				assert.equal(completed[0]!.count().pass, 1, "should still run tests");
+			}
+			finally {
+				await watcher.closeAsync();
+			}
+		});
+
+		it("keeps running tests after a run fails, even when errors aren't handled", async () => {
+			const { runner, clock, fileWatcher } = await createAsync();
+			await writeTestModuleAsync(`// passes`);
+			const rendererPath = `${testDir}/renderer.js`;
+			const stderr = OutputCapture.start();
+
+			const { watcher, started, completed } = watch(runner, [ testModulePath ], {
+				watchDir: testDir,
+				debounce: DEBOUNCE,
+				renderer: rendererPath,
+			});
+			try {
+				await waitUntilAsync(() => stderr.output.includes("Renderer module not found"));
+				assert.match(stderr.output, /Ergotest watch mode encountered an error/, "should report error");
+				assert.equal(completed, [], "first run should fail");
+
+				await fs.writeFile(rendererPath, `export function renderError() { return "custom rendering"; }`);
+				fileWatcher.simulateChange(rendererPath);
+				await clock.tickAsync(DEBOUNCE);
+				await waitUntilAsync(() => completed.length === 1);
+				assert.equal(started[1], [ testModulePath ], "should rerun the module that failed");
+				assert.equal(completed[0]!.count().pass, 1, "next run");
+			}
+			finally {
+				await watcher.closeAsync();
+				stderr.stop();
+			}
+		});
+
+		function watch(runner: TestRunner, modulePaths: string[], options: WatchOptions) {
+			const started: string[][] = [];
+			const completed: TestSuiteResult[] = [];
+			const watcher = runner.watch(modulePaths, {
+				...options,
+				onRunStart: modulePaths => started.push(modulePaths),
+				onRunComplete: result => completed.push(result),
+			});
+			return { watcher, started, completed };
+		}
+
+		async function waitUntilAsync(conditionFn: () => boolean) {
+			const start = Date.now();
+			while (!conditionFn()) {
+				if (Date.now() - start > 5000) throw new Error("Timed out waiting for watch mode");
+				await realDelayAsync(10);
+			}
+		}
+
 	});
 
 
@@ -405,6 +1826,74 @@ export default describe(() => {
 		`);
 	}
 
+	async function writeFilesAsync(relativePaths: string[]) {
+		await Promise.all(relativePaths.map(async (relativePath) => {
+			const filename = `${testDir}/${relativePath}`;
+			await fs.mkdir(path.dirname(filename), { recursive: true });
+			await fs.writeFile(filename, "");
+		}));
+	}
+
+	async function writeTypeScriptTestModuleAsync(): Promise<string> {
+		const tsModulePath = testModulePath.replace(/\.js$/, ".ts");
+		await fs.writeFile(tsModulePath, `
+			import { describe, it } from ` + `"${INDEX_PATH}";
+
+			const value: number = 42;
+
+			export default describe(() => {
+				it("test", () => {
+					throw new Error(\`typed value: \${value}\`);
+				});
+			});
+		`);
+		return tsModulePath;
+	}
+
+	async function writeParallelTestModulesAsync(testDefinitions: string[]): Promise<string[]> {
+		return await Promise.all(testDefinitions.map(async (testDefinition, i) => {
+			const modulePath = `${testModulePath}_${i}.js`;
+			await fs.writeFile(modulePath, `
+				import { beforeEach, describe, it } from ` + `"${INDEX_PATH}";
+
+				export default describe(() => {
+					${testDefinition}
+				});
+			`);
+			return modulePath;
+		}));
+	}
+
+	// The worker tells the test runner about each test before running it, so by the time a test has connected, the
+	// runner's 'testStart' message is waiting to be read. It's read and handled before the next setImmediate().
+	async function listenForTestStartAsync() {
+		const server = net.createServer();
+		const connected = new Promise<void>(resolve => {
+			server.once("connection", socket => {
+				socket.destroy();
+				resolve();
+			});
+		});
+		await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+		const { port } = server.address() as net.AddressInfo;
+
+		return {
+			signalCode: `
+				const net = await import("node:net");
+				await new Promise(resolve => net.connect(${port}, "127.0.0.1", resolve));
+			`,
+			async waitAsync() {
+				await connected;
+				server.close();
+				await new Promise(resolve => setImmediate(resolve));
+			},
+		};
+	}
+
+	async function realDelayAsync(milliseconds: number) {
+		await new Promise(resolve => setTimeout(resolve, milliseconds));
+	}
+
 	async function deleteTempFilesAsync(testDir: string) {
 		assert.isDefined(testDir);
 		await fs.rm(testDir, { recursive: true, force: true });
@@ -417,7 +1906,8 @@ async function createAsync({
 	clock,
 }: { clock?: Clock } = {}) {
 	clock ??= await Clock.createNullAsync();
-	const runner = new TestRunner(clock);
+	const fileWatcher = FileWatcher.createNull();
+	const runner = new TestRunner(clock, fileWatcher);
 
-	return { runner, clock };
+	return { runner, clock, fileWatcher };
 }
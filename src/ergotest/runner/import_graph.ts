@@ -0,0 +1,86 @@
+// Copyright Titanium I.T. LLC. License granted under terms of "The MIT License."
+import * as ensure from "../../util/ensure.js";
+import path from "node:path";
+import fs from "node:fs/promises";
+import { fileURLToPath } from "node:url";
+
+// Matches static imports and re-exports, including multi-line imports, but not dynamic imports or commented-out code
+const IMPORT_REGEX = /^\s*(?:import|export)\s+(?:type\s+)?(?:[\w$*{}\s,]+?\s+from\s*)?["']([^"']+)["']/gm;
+
+/**
+ * Internal use only. Find the test modules that depend on any of a set of changed files, either directly or
+ * transitively, by following each test module's static imports. A test module that changed itself is also included.
+ * Only relative and absolute imports are followed; packages and built-in modules are ignored.
+ * @param {string[]} modulePaths The absolute paths of the test modules.
+ * @param {string[]} changedFiles The files that changed.
+ * @returns {string[]} The test modules that depend on the changed files, in the same order as `modulePaths`.
+ */
+export async function findDependentModulesAsync(modulePaths: string[], changedFiles: string[]): Promise<string[]> {
+	ensure.signature(arguments, [ Array, Array ]);
+
+	const changed = new Set(changedFiles.map(filename => path.resolve(filename)));
+	const importCache = new Map<string, Promise<string[]>>();
+
+	const isDependent = await Promise.all(modulePaths.map(async (modulePath) => {
+		const dependencies = await findDependenciesAsync(modulePath, importCache);
+		return dependencies.some(dependency => changed.has(dependency));
+	}));
+	return modulePaths.filter((_modulePath, i) => isDependent[i]);
+}
+
+async function findDependenciesAsync(modulePath: string, importCache: Map<string, Promise<string[]>>) {
+	const dependencies = new Set<string>();
+	const pending = [ path.resolve(modulePath) ];
+
+	while (pending.length > 0) {
+		const filename = pending.pop()!;
+		if (dependencies.has(filename)) continue;
+		dependencies.add(filename);
+
+		if (!importCache.has(filename)) importCache.set(filename, readImportsAsync(filename));
+		pending.push(...await importCache.get(filename)!);
+	}
+
+	return [ ...dependencies ];
+}
+
+async function readImportsAsync(filename: string): Promise<string[]> {
+	let sourceCode;
+	try {
+		sourceCode = await fs.readFile(filename, "utf8");
+	}
+	catch (err) {
+		// files that don't exist (or aren't files) don't import anything, and the test module's import will fail anyway
+		const code = (err as { code?: string }).code;
+		if (code === "ENOENT" || code === "EISDIR") return [];
+		throw err;
+	}
+
+	const specifiers = [ ...sourceCode.matchAll(IMPORT_REGEX) ].map(match => match[1]!);
+	const imports = await Promise.all(specifiers.map(specifier => resolveImportAsync(filename, specifier)));
+	return imports.filter(importedFile => importedFile !== undefined);
+}
+
+async function resolveImportAsync(importingFile: string, specifier: string): Promise<string | undefined> {
+	let filename;
+	if (specifier.startsWith("file:")) filename = fileURLToPath(specifier);
+	else if (specifier.startsWith(".") || path.isAbsolute(specifier)) filename = path.resolve(path.dirname(importingFile), specifier);
+	else return undefined;
+
+	// TypeScript code imports '.js' files that are actually '.ts' files on disk
+	const typeScriptFilename = filename.replace(/\.([mc]?)js$/, ".$1ts");
+	if (typeScriptFilename !== filename && !await existsAsync(filename) && await existsAsync(typeScriptFilename)) {
+		return typeScriptFilename;
+	}
+	return filename;
+}
+
+async function existsAsync(filename: string): Promise<boolean> {
+	try {
+		await fs.access(filename);
+		return true;
+	}
+	catch {
+		return false;
+	}
+}
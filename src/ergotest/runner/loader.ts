@@ -1,44 +1,121 @@
 // Copyright Titanium I.T. LLC. License granted under terms of "The MIT License."
 import * as ensure from "../../util/ensure.js";
-import { TestMark } from "../results/test_result.js";
 import path from "node:path";
+import fs from "node:fs/promises";
 import { FailureTestCase } from "../tests/test_case.js";
 import { TestSuite } from "../tests/test_suite.js";
 
+const TYPESCRIPT_EXTENSIONS = [ ".ts", ".mts", ".cts" ];
+
+/** Internal use only. */
+export const GLOB_OPTIONS_TYPE = {
+	cwd: [ undefined, String ],
+	ignore: [ undefined, Array ],
+};
+
+export interface GlobOptions {
+	cwd?: string,
+	ignore?: string[],
+}
+
+/**
+ * Convert the test modules matching a list of glob patterns into a test suite. See {@link fromModulesAsync}.
+ * @param {string[]} patterns The glob patterns to match. Relative patterns are resolved against `cwd`.
+ * @param {string} [options.cwd] The directory to resolve relative patterns against. Defaults to the current
+ *   working directory.
+ * @param {string[]} [options.ignore] Glob patterns for files to exclude, such as `node_modules/**`.
+ * @returns {TestSuite} The test suite.
+ */
+export async function fromGlobsAsync(patterns: string[], options: GlobOptions = {}): Promise<TestSuite> {
+	ensure.signature(arguments, [ Array, [ undefined, GLOB_OPTIONS_TYPE ]]);
+
+	return await fromModulesAsync(await expandGlobsAsync(patterns, options));
+}
+
+/**
+ * Internal use only. Find the files that match a list of glob patterns.
+ * @param {string[]} patterns The glob patterns.
+ * @param {string} [options.cwd] The directory to resolve relative patterns against. Defaults to the current
+ *   working directory.
+ * @param {string[]} [options.ignore] Glob patterns for files to exclude. Relative patterns are resolved against `cwd`.
+ * @returns {string[]} The absolute paths of the matching files, sorted and without duplicates.
+ */
+export async function expandGlobsAsync(
+	patterns: string[],
+	{ cwd = process.cwd(), ignore = [] }: GlobOptions = {},
+): Promise<string[]> {
+	ensure.signature(arguments, [ Array, [ undefined, GLOB_OPTIONS_TYPE ]]);
+
+	cwd = path.resolve(cwd);
+	const filenames = new Set<string>();
+	for await (const dirent of fs.glob(patterns, { cwd, withFileTypes: true })) {
+		if (dirent.isDirectory()) continue;
+
+		const filename = path.resolve(cwd, dirent.parentPath, dirent.name);
+		const isIgnored = ignore.some(pattern => {
+			return path.matchesGlob(path.isAbsolute(pattern) ? filename : path.relative(cwd, filename), pattern);
+		});
+		if (!isIgnored) filenames.add(filename);
+	}
+
+	// glob results aren't returned in a consistent order, so sort them
+	return [ ...filenames ].sort();
+}
+
 /**
  * Convert a list of test modules into a test suite. Each module needs to export a test suite by using
- * {@link TestSuite.create}.
+ * {@link TestSuite.create}. TypeScript modules are supported when the current process supports type stripping.
  * @param {string[]} moduleFilenames The filenames of the test modules.
  * @returns {TestSuite} The test suite.
  */
 export async function fromModulesAsync(moduleFilenames: string[]): Promise<TestSuite> {
 	ensure.signature(arguments, [ Array ]);
 
-	const suites = await Promise.all(moduleFilenames.map(filename => loadModuleAsync(filename)));
+	const suites = await Promise.all(moduleFilenames.map(filename => fromModuleAsync(filename)));
 	return TestSuite.create({ tests: suites });
+}
+
+/**
+ * Internal use only. Convert a single test module into a test suite. If the module fails to load, returns a suite
+ * containing a failed test instead.
+ * @param {string} filename The filename of the test module.
+ * @returns {TestSuite} The module's test suite.
+ */
+export async function fromModuleAsync(filename: string): Promise<TestSuite> {
+	ensure.signature(arguments, [ String ]);
 
-	async function loadModuleAsync(filename: string): Promise<TestSuite> {
-		const errorName = `error when importing ${path.basename(filename)}`;
+	const errorName = `error when importing ${path.basename(filename)}`;
 
-		if (!path.isAbsolute(filename)) {
-			return createFailure(errorName, `Test module filenames must use absolute paths: ${filename}`);
-		}
-		try {
-			const { default: suite } = await import(filename);
-			if (suite instanceof TestSuite) {
-				suite._setFilename(filename);
-				return suite;
-			}
-			else {
-				return createFailure(errorName, `Test module doesn't export a test suite: ${filename}`, filename);
-			}
+	if (!path.isAbsolute(filename)) {
+		return createFailure(errorName, `Test module filenames must use absolute paths: ${filename}`);
+	}
+	if (isTypeScript(filename) && !process.features.typescript) {
+		return createFailure(
+			errorName,
+			"Test module is TypeScript, but this version of Node.js doesn't support type stripping " +
+				`(use Node.js 22.18+, or start Node.js with --experimental-strip-types): ${filename}`,
+			filename,
+		);
+	}
+	try {
+		const { default: suite } = await import(filename);
+		if (suite instanceof TestSuite) {
+			suite._setFilename(filename);
+			return suite;
 		}
-		catch(err) {
-			return createFailure(errorName, err, filename);
+		else {
+			return createFailure(errorName, `Test module doesn't export a test suite: ${filename}`, filename);
 		}
 	}
+	catch(err) {
+		return createFailure(errorName, err, filename);
+	}
 
 	function createFailure(name: string, error: unknown, filename?: string) {
 		return TestSuite.create({ tests: [ new FailureTestCase([ name ], error, filename) ] });
 	}
 }
+
+function isTypeScript(filename: string): boolean {
+	return TYPESCRIPT_EXTENSIONS.includes(path.extname(filename));
+}
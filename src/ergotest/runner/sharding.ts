@@ -0,0 +1,95 @@
+// Copyright Titanium I.T. LLC. License granted under terms of "The MIT License."
+import * as ensure from "../../util/ensure.js";
+import path from "node:path";
+import fs from "node:fs/promises";
+
+// Matches calls to it(), it.only(), it.skip(), etc., but not other functions whose names end in 'it'
+const TEST_CASE_REGEX = /(?<![\w$.])it(?:\.\w+)*\s*\(/g;
+
+/** For internal use only. */
+export const SHARD_OPTIONS_TYPE = {
+	index: Number,
+	total: Number,
+	durations: [ undefined, Object ],
+};
+
+export interface ShardOptions {
+	index: number,
+	total: number,
+	durations?: Record<string, number>,
+}
+
+/**
+ * Internal use only. Split test modules into balanced shards and return the modules in one of them. The split is
+ * deterministic, so separate processes (such as separate CI jobs) that ask for different shards of the same modules
+ * will run each module exactly once. Modules are balanced by their recorded durations, if provided, or by the
+ * number of tests they appear to contain otherwise.
+ * @param {string[]} modulePaths The absolute paths of the test modules.
+ * @param {number} shard.index The shard to return, starting with zero.
+ * @param {number} shard.total The number of shards.
+ * @param {Record<string, number>} [shard.durations] The time required to run each module, in milliseconds. Paths
+ *   may be absolute or relative to `cwd`. Modules without a duration are assumed to take the average time.
+ * @param {string} cwd The directory that relative paths in `shard.durations` are relative to.
+ * @returns {string[]} The test modules in the requested shard, in the same order as `modulePaths`.
+ */
+export async function selectShardAsync(
+	modulePaths: string[],
+	{ index, total, durations }: ShardOptions,
+	cwd: string,
+): Promise<string[]> {
+	ensure.signature(arguments, [ Array, SHARD_OPTIONS_TYPE, String ]);
+	ensure.that(Number.isInteger(total) && total >= 1, `Shard total must be a positive integer, but it was ${total}`);
+	ensure.that(
+		Number.isInteger(index) && index >= 0 && index < total,
+		`Shard index must be an integer from 0 to ${total - 1}, but it was ${index}`,
+	);
+
+	const weights = durations === undefined
+		? await Promise.all(modulePaths.map(modulePath => countTestsAsync(modulePath)))
+		: weighByDuration(modulePaths, durations, cwd);
+
+	// Assign the heaviest modules first, each to the lightest shard. Ties are broken by path and by shard index so
+	// every process makes the same choices.
+	const order = modulePaths.map((_, i) => i).sort((a, b) => (
+		weights[b]! - weights[a]! || compareStrings(modulePaths[a]!, modulePaths[b]!)
+	));
+	const shardWeights = Array<number>(total).fill(0);
+	const assignments: number[] = [];
+	for (const i of order) {
+		const lightest = shardWeights.indexOf(Math.min(...shardWeights));
+		shardWeights[lightest]! += weights[i]!;
+		assignments[i] = lightest;
+	}
+
+	return modulePaths.filter((_, i) => assignments[i] === index);
+}
+
+function weighByDuration(modulePaths: string[], durations: Record<string, number>, cwd: string): number[] {
+	const knownDurations = new Map(Object.entries(durations).map(([ filename, duration ]) => (
+		[ path.resolve(cwd, filename), duration ]
+	)));
+	const average = knownDurations.size === 0
+		? 1
+		: [ ...knownDurations.values() ].reduce((sum, duration) => sum + duration, 0) / knownDurations.size;
+
+	return modulePaths.map(modulePath => knownDurations.get(path.resolve(modulePath)) ?? average);
+}
+
+async function countTestsAsync(modulePath: string): Promise<number> {
+	try {
+		const sourceCode = await fs.readFile(modulePath, "utf8");
+		return Math.max(1, sourceCode.match(TEST_CASE_REGEX)?.length ?? 0);
+	}
+	catch (err) {
+		// modules that don't exist will fail when they're loaded, which takes about as long as a small module
+		const code = (err as { code?: string }).code;
+		if (code === "ENOENT" || code === "EISDIR") return 1;
+		throw err;
+	}
+}
+
+function compareStrings(a: string, b: string): number {
+	if (a < b) return -1;
+	if (a > b) return 1;
+	return 0;
+}
@@ -9,46 +9,219 @@ import {
 	TestSuiteResult,
 } from "../results/test_result.js";
 import child_process, { ChildProcess } from "node:child_process";
+import worker_threads from "node:worker_threads";
 import path from "node:path";
+import os from "node:os";
 import { Clock } from "../../infrastructure/clock.js";
-import { fromModulesAsync } from "./loader.js";
+import { FileWatcher } from "../../infrastructure/file_watcher.js";
+import { expandGlobsAsync, fromModulesAsync, GLOB_OPTIONS_TYPE, GlobOptions } from "./loader.js";
+import { findDependentModulesAsync } from "./import_graph.js";
+import { selectShardAsync, SHARD_OPTIONS_TYPE, ShardOptions } from "./sharding.js";
 import { importRendererAsync, TestSuite } from "../tests/test_suite.js";
 import { TestOptions } from "../tests/test_api.js";
+import { createShuffleFn, generateSeed, TestOrder, validateOrder } from "../tests/random_order.js";
+import { LeakDetectionMode } from "../tests/leak_detector.js";
+import { GlobalSetup } from "../tests/global_setup.js";
+import { validateConfig } from "../tests/config_schema.js";
 // dependency: ./test_runner_worker_process.js
 
 const WORKER_FILENAME = path.resolve(import.meta.dirname, "./test_runner_worker_process.js");
 const KEEPALIVE_TIMEOUT_IN_MS = TestSuite.DEFAULT_TIMEOUT_IN_MS;
+const DEFAULT_DEBOUNCE_IN_MS = 100;
+
+// Node.js versions before 22.18 only strip TypeScript types when they're told to
+const TYPESCRIPT_EXEC_ARGV = !process.features.typescript
+	&& process.allowedNodeEnvironmentFlags.has("--experimental-strip-types") ? [ "--experimental-strip-types" ] : [];
 
 const TEST_OPTIONS_TYPE = {
 	timeout: [ undefined, Number ],
 	config: [ undefined, Object ],
+	configSchema: [ undefined, Object ],
+	filter: [ undefined, String, RegExp ],
+	order: [ undefined, String ],
+	seed: [ undefined, Number ],
+	bail: [ undefined, Number ],
+	detectLeaks: [ undefined, String ],
+	globalSetup: [ undefined, Array ],
 	onTestCaseResult: [ undefined, Function ],
 	renderer: [ undefined, String ],
+	signal: [ undefined, AbortSignal ],
+};
+
+const MODULE_SELECTION_OPTIONS_TYPE = {
+	glob: [ undefined, Boolean, GLOB_OPTIONS_TYPE ],
+	changedFiles: [ undefined, Array ],
+	shard: [ undefined, SHARD_OPTIONS_TYPE ],
+};
+
+const RUNNER_OPTIONS_TYPE = {
+	...TEST_OPTIONS_TYPE,
+	...MODULE_SELECTION_OPTIONS_TYPE,
+};
+
+const CHILD_PROCESS_OPTIONS_TYPE = {
+	...RUNNER_OPTIONS_TYPE,
+	resilient: [ undefined, Boolean ],
+	execArgv: [ undefined, Array ],
+	env: [ undefined, Object ],
+	imports: [ undefined, Array ],
+};
+
+const PARALLEL_OPTIONS_TYPE = {
+	...CHILD_PROCESS_OPTIONS_TYPE,
+	workers: [ undefined, Number ],
 };
 
+const WATCH_OPTIONS_TYPE = {
+	...CHILD_PROCESS_OPTIONS_TYPE,
+	signal: undefined,
+	changedFiles: undefined,
+	shard: undefined,
+	watchDir: [ undefined, String ],
+	debounce: [ undefined, Number ],
+	onRunStart: [ undefined, Function ],
+	onRunComplete: [ undefined, Function ],
+	onError: [ undefined, Function ],
+};
+
+export interface ModuleSelectionOptions {
+	glob?: boolean | GlobOptions,
+	changedFiles?: string[],
+	shard?: ShardOptions,
+}
+
+export interface RunnerTestOptions extends TestOptions, ModuleSelectionOptions {}
+
+export interface ChildProcessTestOptions extends RunnerTestOptions {
+	resilient?: boolean,
+	execArgv?: string[],
+	env?: Record<string, string>,
+	imports?: string[],
+}
+
+export interface ParallelTestOptions extends ChildProcessTestOptions {
+	workers?: number,
+}
+
+export interface WatchOptions extends Omit<ChildProcessTestOptions, "signal" | "changedFiles" | "shard"> {
+	watchDir?: string,
+	debounce?: number,
+	onRunStart?: (modulePaths: string[]) => void,
+	onRunComplete?: (result: TestSuiteResult) => void,
+	onError?: (error: unknown) => void,
+}
+
+type ForkOptions = Pick<ChildProcessTestOptions, "execArgv" | "env" | "imports">;
+
+type RunModuleOptions = Pick<
+	TestOptions, "timeout" | "config" | "filter" | "order" | "seed" | "bail" | "detectLeaks" | "renderer"
+>;
+
+/** For internal use only. */
+export type WorkerInput = RunModulesInput | LoadModuleInput | RunModuleInput | BailInput | SetupInput | TeardownInput;
+
 /** For internal use only. */
-export interface WorkerInput {
+export interface RunModulesInput {
+	type: "run",
 	modulePaths: string[],
+	globalSetup?: string[],
 	timeout?: number,
 	config?: Record<string, unknown>
+	filter?: string | RegExp,
+	order?: TestOrder,
+	seed?: number,
+	bail?: number,
+	detectLeaks?: LeakDetectionMode,
 	renderer?: string,
 }
 
+/** For internal use only. */
+export interface LoadModuleInput {
+	type: "load",
+	modulePath: string,
+}
+
+/** For internal use only. */
+export interface RunModuleInput {
+	type: "runModule",
+	modulePath: string,
+	skip: boolean,
+	timeout?: number,
+	config?: Record<string, unknown>
+	filter?: string | RegExp,
+	order?: TestOrder,
+	seed?: number,
+	bail?: number,
+	detectLeaks?: LeakDetectionMode,
+	renderer?: string,
+}
+
+/** For internal use only. */
+export interface BailInput {
+	type: "bail",
+}
+
+/** For internal use only. */
+export interface SetupInput {
+	type: "setup",
+	globalSetup: string[],
+}
+
+/** For internal use only. */
+export interface TeardownInput {
+	type: "teardown",
+}
+
 /** For internal use only. */
 export type WorkerOutput = {
+	type: "ready"
+} | {
 	type: "keepalive"
+} | {
+	type: "testStart",
+	name: string[],
+	filename?: string,
 } | {
 	type: "progress",
 	result: SerializedTestCaseResult,
+} | {
+	type: "loaded",
+	isDotOnly: boolean,
 } | {
 	type: "complete",
 	result: SerializedTestSuiteResult,
+} | {
+	type: "unhandled",
+	result: SerializedTestSuiteResult,
+} | {
+	type: "setupComplete",
+	config: Record<string, unknown>,
+} | {
+	type: "tornDown",
 } | {
 	type: "fatal",
 	message: string,
 	err: unknown,
 }
 
+/**
+ * The parts of a child process or worker thread that the test runner uses to communicate with its workers.
+ */
+interface TestWorker {
+	readonly exitCode: number | null,
+	readonly signalCode: string | null,
+	send(message: WorkerInput): void,
+	kill(signal?: "SIGKILL"): void,
+	on(event: "message", listener: (message: WorkerOutput) => void): unknown,
+	on(event: "close" | "exit", listener: () => void): unknown,
+	on(event: "error", listener: (error: Error) => void): unknown,
+}
+
+interface RunningTest {
+	name: string[],
+	filename?: string,
+}
+
 /**
  * Loads and runs tests in an isolated process.
  */
@@ -59,14 +232,51 @@ export class TestRunner {
 	 * @returns {TestRunner} The test runner.
 	 */
 	static create() {
-		return new TestRunner(Clock.create());
+		return new TestRunner(Clock.create(), FileWatcher.create());
 	}
 
 	private readonly _clock: Clock;
+	private readonly _fileWatcher: FileWatcher;
+	private readonly _idleWorkers: ChildProcess[] = [];
+	private readonly _workersReady = new WeakMap<ChildProcess, Promise<void>>();
+	private _prewarmCount = 0;
 
 	/** For internal use only. (Use a factory method instead.) */
-	constructor(clock: Clock) {
+	constructor(clock: Clock, fileWatcher: FileWatcher) {
 		this._clock = clock;
+		this._fileWatcher = fileWatcher;
+	}
+
+	/**
+	 * Start child processes ahead of time and keep them idle, so future test runs don't have to wait for a child
+	 * process to start. Each test run still gets a fresh child process: once a prewarmed process is used, it's
+	 * replaced with another one after the test run completes. Call {@link shutdownAsync} to stop the idle processes.
+	 *
+	 * @param {number} count The number of child processes to keep ready.
+	 */
+	async prewarmAsync(count: number): Promise<void> {
+		ensure.signature(arguments, [ Number ]);
+		ensure.that(Number.isInteger(count) && count >= 0, `Prewarm count must be a non-negative integer, but it was ${count}`);
+
+		this._prewarmCount = count;
+		this.#replenishIdleWorkers();
+
+		const extraWorkers = this._idleWorkers.splice(count);
+		await Promise.all([
+			...extraWorkers.map(worker => killWorkerAsync(worker)),
+			...this._idleWorkers.map(worker => this._workersReady.get(worker)),
+		]);
+	}
+
+	/**
+	 * Stop the idle child processes started by {@link prewarmAsync}. Test runs that are in progress aren't affected.
+	 */
+	async shutdownAsync(): Promise<void> {
+		ensure.signature(arguments, []);
+
+		this._prewarmCount = 0;
+		const workers = this._idleWorkers.splice(0);
+		await Promise.all(workers.map(worker => killWorkerAsync(worker)));
 	}
 
 	/**
@@ -75,44 +285,404 @@ export class TestRunner {
 	 * will have been cached.
 	 *
 	 * @param {string[]} modulePaths The test files to load and run.
+	 * @param {boolean | GlobOptions} [options.glob] If set, `modulePaths` are glob patterns rather than absolute
+	 *   paths. Provide an object with `cwd` and `ignore` properties to customize the search.
+	 * @param {string[]} [options.changedFiles] If set, only run the modules that depend on these files, directly or
+	 *   transitively. See {@link findDependentModulesAsync}.
 	 * @param {object} [config] Configuration data to provide to the tests as they run.
 	 * @param {(result: TestResult) => ()} [notifyFn] A function to call each time a test completes. The `result`
 	 *   parameter describes the result of the test—whether it passed, failed, etc.
 	 * @returns {Promise<TestSuiteResult>}
 	 */
-	async runInCurrentProcessAsync(modulePaths: string[], options?: TestOptions): Promise<TestSuiteResult> {
-		ensure.signature(arguments, [ Array, [ undefined, TEST_OPTIONS_TYPE]]);
+	async runInCurrentProcessAsync(modulePaths: string[], options: RunnerTestOptions = {}): Promise<TestSuiteResult> {
+		ensure.signature(arguments, [ Array, [ undefined, RUNNER_OPTIONS_TYPE ]]);
+
+		const { glob, changedFiles, shard, globalSetup, config, configSchema, ...testOptions } = options;
+		modulePaths = await selectModulesAsync(modulePaths, { glob, changedFiles, shard });
+
+		// Config from global setup isn't in the schema, so config is checked before it's merged in, like other runs
+		validateConfig(config ?? {}, configSchema);
 
-		const suite = await fromModulesAsync(modulePaths);
-		return await suite.runAsync(options);
+		// Global setup runs before the test modules are loaded, so the modules can depend on it
+		const setup = await GlobalSetup.setupAsync(globalSetup);
+		try {
+			const suite = await fromModulesAsync(modulePaths);
+			return await suite.runAsync({ ...testOptions, config: { ...config, ...setup.config } });
+		}
+		finally {
+			await setup.teardownAsync();
+		}
 	}
 
 	/**
 	 * Load and run a set of test modules in an isolated child process.
 	 *
 	 * @param {string[]} modulePaths The test files to load and run.
+	 * @param {boolean | GlobOptions} [options.glob] If set, `modulePaths` are glob patterns rather than absolute
+	 *   paths. See {@link runInCurrentProcessAsync}.
+	 * @param {string[]} [options.changedFiles] If set, only run the modules that depend on these files. See
+	 *   {@link findDependentModulesAsync}.
+	 * @param {boolean} [options.resilient] If true, when a module crashes the child process (for example, by calling
+	 *   `process.exit()` or entering an infinite loop), record a failure for that module and continue running the
+	 *   remaining modules in a fresh child process. Otherwise, the crash ends the test run. Defaults to false.
+	 * @param {string[]} [options.execArgv] Node.js command-line options for the child process, such as
+	 *   `--enable-source-maps`. They're added to the options used to start the current process.
+	 * @param {Record<string, string>} [options.env] Environment variables for the child process. They're added to
+	 *   the current process's environment, replacing variables with the same name.
+	 * @param {string[]} [options.imports] Modules to preload in the child process using `--import`, such as modules
+	 *   that register custom module loaders.
+	 * @param {object} [options.config] Configuration data to provide to the tests as they run.
+	 * @param {(result: TestCaseResult) => ()} [options.onTestCaseResult] A function to call each time a test completes.
+	 *   The `result` parameter describes the result of the test—whether it passed, failed, etc.
+	 * @returns {Promise<TestSuiteResult>}
+	 */
+	async runInChildProcessAsync(modulePaths: string[], options: ChildProcessTestOptions = {}): Promise<TestSuiteResult> {
+		ensure.signature(arguments, [ Array, [ undefined, CHILD_PROCESS_OPTIONS_TYPE ]]);
+
+		const { glob, changedFiles, shard, resilient = false, execArgv, env, imports, ...testOptions } = options;
+		modulePaths = await selectModulesAsync(modulePaths, { glob, changedFiles, shard });
+
+		const forkOptions = { execArgv, env, imports };
+		try {
+			if (resilient) {
+				// The pool already runs one module at a time, so a pool of one can replace a crashed worker mid-run
+				const pool = new WorkerPool(this._clock, 1, true, () => this.#takeWorker(forkOptions));
+				return await pool.runAsync(modulePaths, testOptions);
+			}
+			else {
+				const worker = new WorkerProcess(this._clock, this.#takeWorker(forkOptions));
+				return await worker.runAsync(modulePaths, testOptions);
+			}
+		}
+		finally {
+			this.#replenishIdleWorkers();
+		}
+	}
+
+	/**
+	 * Load and run a set of test modules in several isolated child processes at once. Each child process takes one
+	 * module at a time off of a shared queue. The results are combined into a single test suite result, in the same
+	 * order as `modulePaths`.
+	 *
+	 * @param {string[]} modulePaths The test files to load and run.
+	 * @param {boolean | GlobOptions} [options.glob] If set, `modulePaths` are glob patterns rather than absolute
+	 *   paths. See {@link runInCurrentProcessAsync}.
+	 * @param {string[]} [options.changedFiles] If set, only run the modules that depend on these files. See
+	 *   {@link findDependentModulesAsync}.
+	 * @param {number} [options.workers] The number of child processes to use. Defaults to the amount of parallelism
+	 *   available on this computer.
+	 * @param {boolean} [options.resilient] If true, when a module crashes its child process, record a failure for that
+	 *   module and replace the child process, rather than ending the test run. Defaults to false.
+	 * @param {string[]} [options.execArgv] Node.js command-line options for the child processes. See
+	 *   {@link runInChildProcessAsync}.
+	 * @param {Record<string, string>} [options.env] Environment variables for the child processes. See
+	 *   {@link runInChildProcessAsync}.
+	 * @param {string[]} [options.imports] Modules to preload in the child processes using `--import`. See
+	 *   {@link runInChildProcessAsync}.
+	 * @param {object} [options.config] Configuration data to provide to the tests as they run.
+	 * @param {(result: TestCaseResult) => ()} [options.onTestCaseResult] A function to call each time a test completes.
+	 *   The `result` parameter describes the result of the test—whether it passed, failed, etc.
+	 * @returns {Promise<TestSuiteResult>}
+	 */
+	async runInParallelAsync(modulePaths: string[], options: ParallelTestOptions = {}): Promise<TestSuiteResult> {
+		ensure.signature(arguments, [ Array, [ undefined, PARALLEL_OPTIONS_TYPE ]]);
+
+		const {
+			glob,
+			changedFiles,
+			shard,
+			workers = os.availableParallelism(),
+			resilient = false,
+			execArgv,
+			env,
+			imports,
+			...testOptions
+		} = options;
+		ensure.that(Number.isInteger(workers) && workers >= 1, `Worker count must be a positive integer, but it was ${workers}`);
+		modulePaths = await selectModulesAsync(modulePaths, { glob, changedFiles, shard });
+
+		const forkOptions = { execArgv, env, imports };
+		const pool = new WorkerPool(this._clock, workers, resilient, () => this.#takeWorker(forkOptions));
+		try {
+			return await pool.runAsync(modulePaths, testOptions);
+		}
+		finally {
+			this.#replenishIdleWorkers();
+		}
+	}
+
+	/**
+	 * Load and run a set of test modules in an isolated worker thread. This is like {@link runInChildProcessAsync},
+	 * but starts faster. The worker thread has its own module cache, so the modules are loaded fresh every time, but
+	 * it shares the current process's memory limits and native resources.
+	 *
+	 * @param {string[]} modulePaths The test files to load and run.
+	 * @param {boolean | GlobOptions} [options.glob] If set, `modulePaths` are glob patterns rather than absolute
+	 *   paths. See {@link runInCurrentProcessAsync}.
+	 * @param {string[]} [options.changedFiles] If set, only run the modules that depend on these files. See
+	 *   {@link findDependentModulesAsync}.
 	 * @param {object} [options.config] Configuration data to provide to the tests as they run.
 	 * @param {(result: TestCaseResult) => ()} [options.onTestCaseResult] A function to call each time a test completes.
 	 *   The `result` parameter describes the result of the test—whether it passed, failed, etc.
 	 * @returns {Promise<TestSuiteResult>}
 	 */
-	async runInChildProcessAsync(modulePaths: string[], options: TestOptions = {}): Promise<TestSuiteResult> {
-		ensure.signature(arguments, [ Array, [ undefined, TEST_OPTIONS_TYPE ]]);
+	async runInWorkerThreadAsync(modulePaths: string[], options: RunnerTestOptions = {}): Promise<TestSuiteResult> {
+		ensure.signature(arguments, [ Array, [ undefined, RUNNER_OPTIONS_TYPE ]]);
+
+		const { glob, changedFiles, shard, ...testOptions } = options;
+		modulePaths = await selectModulesAsync(modulePaths, { glob, changedFiles, shard });
+
+		const worker = new WorkerProcess(this._clock, new ThreadWorker());
+		return await worker.runAsync(modulePaths, testOptions);
+	}
+
+	/**
+	 * Run a set of test modules, then watch the file system and run them again whenever files change. Each run happens
+	 * in a fresh child process, like {@link runInChildProcessAsync}. After the first run, only the modules that depend
+	 * on the changed files are run (see {@link findDependentModulesAsync}), along with any modules that didn't finish
+	 * because their run was cancelled. Changes that happen close together are combined into a single run. If files
+	 * change while tests are running, the run in progress is cancelled and its results are reported as cancelled.
+	 *
+	 * @param {string[]} modulePaths The test files to load and run.
+	 * @param {boolean | GlobOptions} [options.glob] If set, `modulePaths` are glob patterns rather than absolute
+	 *   paths. They're searched again before every run, so new test files are found. See
+	 *   {@link runInCurrentProcessAsync}.
+	 * @param {string} [options.watchDir] The directory to watch for changes, including its subdirectories. Defaults to
+	 *   `options.glob.cwd`, if provided, or the current working directory otherwise.
+	 * @param {number} [options.debounce] The number of milliseconds to wait after a file changes, to see if more files
+	 *   will change, before starting a run. Defaults to 100ms.
+	 * @param {(modulePaths: string[]) => void} [options.onRunStart] A function to call each time a run starts. It's
+	 *   called with the absolute paths of the test files being run. Runs with no test files to run are skipped.
+	 * @param {(result: TestSuiteResult) => void} [options.onRunComplete] A function to call each time a run completes,
+	 *   including runs that were cancelled.
+	 * @param {(error: unknown) => void} [options.onError] A function to call when a run can't be completed, such as
+	 *   when the renderer can't be loaded, or when `watchDir` can't be watched. Defaults to writing the error to stderr. Either way, later changes still
+	 *   trigger runs.
+	 * @param {boolean} [options.resilient] See {@link runInChildProcessAsync}.
+	 * @param {string[]} [options.execArgv] See {@link runInChildProcessAsync}.
+	 * @param {Record<string, string>} [options.env] See {@link runInChildProcessAsync}.
+	 * @param {string[]} [options.imports] See {@link runInChildProcessAsync}.
+	 * @param {object} [options.config] Configuration data to provide to the tests as they run.
+	 * @param {(result: TestCaseResult) => ()} [options.onTestCaseResult] A function to call each time a test completes.
+	 *   The `result` parameter describes the result of the test—whether it passed, failed, etc.
+	 * @returns {TestWatcher} The watcher. Call {@link TestWatcher.closeAsync} to stop watching.
+	 */
+	watch(modulePaths: string[], options: WatchOptions = {}): TestWatcher {
+		ensure.signature(arguments, [ Array, [ undefined, WATCH_OPTIONS_TYPE ]]);
+
+		const {
+			glob = false,
+			watchDir = (typeof glob === "object" ? glob.cwd : undefined) ?? process.cwd(),
+			debounce = DEFAULT_DEBOUNCE_IN_MS,
+			...runOptions
+		} = options;
+		ensure.that(debounce >= 0, `Debounce must be non-negative, but it was ${debounce}`);
+
+		return new TestWatcher(this, this._clock, this._fileWatcher, modulePaths, {
+			glob, watchDir, debounce, ...runOptions,
+		});
+	}
+
+	/**
+	 * Find the test modules that depend on any of a set of changed files, either directly or transitively, by
+	 * following each module's static imports. Modules that changed themselves are also included. Only relative and
+	 * absolute imports are followed; packages in `node_modules` and built-in modules are ignored.
+	 *
+	 * @param {string[]} modulePaths The test files to check.
+	 * @param {string[]} changedFiles The files that changed.
+	 * @param {boolean | GlobOptions} [options.glob] If set, `modulePaths` are glob patterns rather than absolute
+	 *   paths. See {@link runInCurrentProcessAsync}.
+	 * @returns {Promise<string[]>} The absolute paths of the test files that depend on the changed files.
+	 */
+	async findDependentModulesAsync(
+		modulePaths: string[],
+		changedFiles: string[],
+		{ glob }: { glob?: boolean | GlobOptions } = {},
+	): Promise<string[]> {
+		ensure.signature(arguments, [ Array, Array, [ undefined, { glob: MODULE_SELECTION_OPTIONS_TYPE.glob } ]]);
+
+		return await selectModulesAsync(modulePaths, { glob, changedFiles });
+	}
+
+	#takeWorker(forkOptions: ForkOptions): ChildProcess {
+		// Prewarmed workers were started with the default options, so they can't be used when the options are customized
+		const isCustomized = Object.values(forkOptions).some(option => option !== undefined);
+		if (isCustomized) return forkWorker(forkOptions);
+
+		return this._idleWorkers.shift() ?? forkWorker();
+	}
 
-		const worker = new WorkerProcess(this._clock);
-		return await worker.runAsync(modulePaths, options);
+	#replenishIdleWorkers() {
+		while (this._idleWorkers.length < this._prewarmCount) {
+			const worker = forkWorker();
+			this._workersReady.set(worker, waitUntilReadyAsync(worker));
+			const removeFromIdleWorkers = () => {
+				const index = this._idleWorkers.indexOf(worker);
+				if (index !== -1) this._idleWorkers.splice(index, 1);
+			};
+			worker.on("exit", removeFromIdleWorkers);
+			worker.on("error", removeFromIdleWorkers);
+			this._idleWorkers.push(worker);
+		}
 	}
 
 }
 
 
+/**
+ * Reruns tests when files change. Use {@link TestRunner.watch} to create it.
+ */
+export class TestWatcher {
+
+	private readonly _runner: TestRunner;
+	private readonly _clock: Clock;
+	private readonly _modulePaths: string[];
+	private readonly _glob: boolean | GlobOptions;
+	private readonly _debounce: number;
+	private readonly _onRunStart: (modulePaths: string[]) => void;
+	private readonly _onRunComplete: (result: TestSuiteResult) => void;
+	private readonly _onError: (error: unknown) => void;
+	private readonly _runOptions: ChildProcessTestOptions;
+	private readonly _stopWatchingFn: () => void;
+	private readonly _changedFiles = new Set<string>();
+	private readonly _interruptedModules = new Set<string>();
+	private _debounceTimer?: { aliveFn: () => void, cancelFn: () => void };
+	private _queuedChanges?: Set<string>;
+	private _abortController?: AbortController;
+	private _running: Promise<void>;
+	private _isClosed = false;
+
+	/** For internal use only. (Use {@link TestRunner.watch} instead.) */
+	constructor(
+		runner: TestRunner,
+		clock: Clock,
+		fileWatcher: FileWatcher,
+		modulePaths: string[],
+		{
+			glob,
+			watchDir,
+			debounce,
+			onRunStart = () => {},
+			onRunComplete = () => {},
+			onError = reportWatchError,
+			...runOptions
+		}: WatchOptions & { glob: boolean | GlobOptions, watchDir: string, debounce: number },
+	) {
+		this._runner = runner;
+		this._clock = clock;
+		this._modulePaths = modulePaths;
+		this._glob = glob;
+		this._debounce = debounce;
+		this._onRunStart = onRunStart;
+		this._onRunComplete = onRunComplete;
+		this._onError = onError;
+		this._runOptions = runOptions;
+
+		this._stopWatchingFn = fileWatcher.watch(
+			watchDir,
+			filename => this.#onChange(filename),
+			error => this._onError(error),
+		);
+		this._running = this.#runOnceAsync(undefined).catch(reportWatchError);
+	}
+
+	/**
+	 * Stop watching the file system. If tests are running, the run is cancelled, and this method waits for it to end.
+	 */
+	async closeAsync(): Promise<void> {
+		ensure.signature(arguments, []);
+
+		this._isClosed = true;
+		this._stopWatchingFn();
+		this._debounceTimer?.cancelFn();
+		this._abortController?.abort();
+		await this._running;
+	}
+
+	#onChange(filename: string) {
+		if (this._isClosed) return;
+
+		this._changedFiles.add(filename);
+		if (this._debounceTimer === undefined) {
+			this._debounceTimer = this._clock.keepAlive(this._debounce, () => {
+				this._debounceTimer = undefined;
+				const changedFiles = [ ...this._changedFiles ];
+				this._changedFiles.clear();
+				this.#queueRun(changedFiles);
+			});
+		}
+		else {
+			this._debounceTimer.aliveFn();
+		}
+	}
+
+	#queueRun(changedFiles: string[]) {
+		this._abortController?.abort();
+
+		// If a run is already waiting for the cancelled run to end, add these changes to it rather than queueing another
+		if (this._queuedChanges !== undefined) {
+			changedFiles.forEach(filename => this._queuedChanges!.add(filename));
+			return;
+		}
+
+		const queuedChanges = new Set(changedFiles);
+		this._queuedChanges = queuedChanges;
+		// If onError throws, later runs still need to happen, so errors don't break the chain of runs
+		this._running = this._running.then(async () => {
+			this._queuedChanges = undefined;
+			await this.#runOnceAsync([ ...queuedChanges ]);
+		}).catch(reportWatchError);
+	}
+
+	async #runOnceAsync(changedFiles: string[] | undefined) {
+		if (this._isClosed) return;
+
+		const abortController = new AbortController();
+		this._abortController = abortController;
+		try {
+			const allModules = await selectModulesAsync(this._modulePaths, { glob: this._glob });
+			const changedModules = changedFiles === undefined
+				? allModules
+				: await findDependentModulesAsync(allModules, changedFiles);
+			const modulePaths = allModules.filter(modulePath => (
+				changedModules.includes(modulePath) || this._interruptedModules.has(modulePath)
+			));
+			if (modulePaths.length === 0) return;
+
+			modulePaths.forEach(modulePath => this._interruptedModules.add(modulePath));
+			if (abortController.signal.aborted) return;
+
+			this._onRunStart(modulePaths);
+			const result = await this._runner.runInChildProcessAsync(modulePaths, {
+				...this._runOptions,
+				signal: abortController.signal,
+			});
+			if (!result.cancelled) this._interruptedModules.clear();
+			this._onRunComplete(result);
+		}
+		catch (err) {
+			this._onError(err);
+		}
+		finally {
+			if (this._abortController === abortController) this._abortController = undefined;
+		}
+	}
+
+}
+
+function reportWatchError(error: unknown) {
+	console.error("Ergotest watch mode encountered an error:", error);
+}
+
+
 class WorkerProcess {
 
 	private _clock: Clock;
-	private _worker!: ChildProcess;
+	private _worker: TestWorker;
 
-	constructor(clock: Clock) {
+	constructor(clock: Clock, worker: TestWorker) {
 		this._clock = clock;
+		this._worker = worker;
 	}
 
 	async runAsync(
@@ -120,16 +690,27 @@ class WorkerProcess {
 		{
 			timeout,
 			config,
+			configSchema,
+			filter,
+			order,
+			seed,
+			bail,
+			detectLeaks,
+			globalSetup,
 			onTestCaseResult = () => {},
 			renderer,
+			signal,
 		}: TestOptions,
 		): Promise<TestSuiteResult> {
-		this._worker = child_process.fork(WORKER_FILENAME, { serialization: "advanced", detached: false });
-
 		try {
+			// The schema can't be sent to the worker, so config is checked here
+			validateConfig(config ?? {}, configSchema);
+			seed = chooseSeed(order, seed);
 			const renderErrorFn = await importRendererAsync(renderer);
-			this._worker.send({ modulePaths, timeout, config, renderer });
-			return await this.#handleWorkerEvents(renderErrorFn, onTestCaseResult);
+			this._worker.send({
+				type: "run", modulePaths, globalSetup, timeout, config, filter, order, seed, bail, detectLeaks, renderer,
+			});
+			return withSeed(await this.#handleWorkerEvents(renderErrorFn, onTestCaseResult, signal), seed);
 		}
 		finally {
 			await this.#killWorkerProcess();
@@ -139,26 +720,22 @@ class WorkerProcess {
 	async #handleWorkerEvents(
 		renderError: RenderErrorFn,
 		onTestCaseResult: (testCaseResult: TestCaseResult) => void,
+		signal: AbortSignal | undefined,
 	): Promise<TestSuiteResult> {
 		return await new Promise<TestSuiteResult>((resolve, reject) => {
 			let workerIsDone = false;
+			let runningTest: RunningTest | undefined;
+			const previousResults: TestCaseResult[] = [];
 
 			const { aliveFn, cancelFn } = this._clock.keepAlive(KEEPALIVE_TIMEOUT_IN_MS, () => {
-				return resolve(createWatchdogFailureAndNotifyCaller(
-					"Detected infinite loop in tests",
-					renderError,
-					onTestCaseResult,
-				));
+				prepareForWorkerExit();
+				return resolveWithWatchdogFailure("Detected infinite loop in tests");
 			});
 
 			this._worker.on("close", () => {
 				if (!workerIsDone) {
 					prepareForWorkerExit();
-					return resolve(createWatchdogFailureAndNotifyCaller(
-						"Tests exited early (probably by calling `process.exit()`)",
-						renderError,
-						onTestCaseResult,
-					));
+					return resolveWithWatchdogFailure("Tests exited early (probably by calling `process.exit()`)");
 				}
 			});
 
@@ -168,58 +745,653 @@ class WorkerProcess {
 
 			this._worker.on("message", (message: WorkerOutput) => {
 				switch (message.type) {
+					case "ready":
+						break;
 					case "keepalive":
 						aliveFn();
 						break;
-					case "progress":
-						onTestCaseResult(TestCaseResult.deserialize(message.result));
+					case "testStart":
+						runningTest = { name: message.name, filename: message.filename };
+						break;
+					case "progress": {
+						const result = TestCaseResult.deserialize(message.result);
+						runningTest = undefined;
+						previousResults.push(result);
+						onTestCaseResult(result);
 						break;
+					}
 					case "fatal":
 						prepareForWorkerExit();
 						return reject(new Error(message.message, { cause: message.err }));
 					case "complete":
+					case "unhandled":
 						prepareForWorkerExit();
 						return resolve(TestSuiteResult.deserialize(message.result));
+					case "loaded":
+					case "setupComplete":
+					case "tornDown":
+						return reject(
+							new Error(`Test runner received unexpected '${message.type}' message from worker process`)
+						);
 					default:
 						// @ts-expect-error TypeScript thinks this is unreachable, but we check it just in case
 						ensure.unreachable(`Unknown message type '${message.type}' from test runner: ${JSON.stringify(message)}`);
 				}
 			});
 
+			if (signal?.aborted) cancel();
+			else signal?.addEventListener("abort", cancel);
+
+			function cancel() {
+				prepareForWorkerExit();
+				return resolve(TestSuiteResult.create({ tests: previousResults, cancelled: true }));
+			}
+
 			function prepareForWorkerExit() {
 				workerIsDone = true;
 				cancelFn();
+				signal?.removeEventListener("abort", cancel);
+			}
+
+			function resolveWithWatchdogFailure(errorMessage: string) {
+				const failure = createWatchdogFailureAndNotifyCaller(errorMessage, renderError, onTestCaseResult, runningTest);
+				return resolve(TestSuiteResult.create({ tests: [ ...previousResults, failure ] }));
 			}
 		});
 	}
 
 	async #killWorkerProcess(): Promise<void> {
-		await new Promise<void>((resolve, reject) => {
-			if (!this.#workerIsRunning()) return resolve();
+		await killWorkerAsync(this._worker);
+	}
+
+}
+
+class WorkerPool {
 
-			this._worker.kill("SIGKILL");    // specific signal not tested
-			this._worker.on("close", resolve);
-			this._worker.on("error", reject);
+	private readonly _clock: Clock;
+	private readonly _workerCount: number;
+	private readonly _resilient: boolean;
+	private readonly _takeWorkerFn: () => TestWorker;
+
+	constructor(clock: Clock, workerCount: number, resilient: boolean, takeWorkerFn: () => TestWorker) {
+		this._clock = clock;
+		this._workerCount = workerCount;
+		this._resilient = resilient;
+		this._takeWorkerFn = takeWorkerFn;
+	}
+
+	async runAsync(
+		modulePaths: string[],
+		{
+			timeout,
+			config,
+			configSchema,
+			filter,
+			order,
+			seed,
+			bail,
+			detectLeaks,
+			globalSetup,
+			onTestCaseResult = () => {},
+			renderer,
+			signal,
+		}: TestOptions,
+	): Promise<TestSuiteResult> {
+		// The schema can't be sent to the workers, so config is checked here
+		validateConfig(config ?? {}, configSchema);
+		seed = chooseSeed(order, seed);
+		const renderErrorFn = await importRendererAsync(renderer);
+
+		// Global setup runs once for the whole run, rather than once per worker, so the workers share its resources.
+		// It runs in its own worker, so the setup modules are loaded fresh every run, like the test modules.
+		const setup = await SetupWorker.setupAsync(globalSetup, this._takeWorkerFn);
+		try {
+			return await this.#runWorkersAsync(modulePaths, renderErrorFn, {
+				timeout,
+				config: { ...config, ...setup.config },
+				filter,
+				order,
+				seed,
+				bail,
+				detectLeaks,
+				onTestCaseResult,
+				renderer,
+				signal,
+			});
+		}
+		finally {
+			await setup.teardownAsync();
+		}
+	}
+
+	async #runWorkersAsync(
+		modulePaths: string[],
+		renderErrorFn: RenderErrorFn | undefined,
+		{
+			timeout,
+			config,
+			filter,
+			order,
+			seed,
+			bail,
+			detectLeaks,
+			onTestCaseResult = () => {},
+			renderer,
+			signal,
+		}: TestOptions,
+	): Promise<TestSuiteResult> {
+		const workerCount = Math.min(this._workerCount, modulePaths.length);
+		const previousResults: TestCaseResult[] = [];
+
+		// Failures are counted across all workers, and when there are too many, every worker stops running tests
+		const bailController = new AbortController();
+		let failures = 0;
+		const onResult = (result: TestCaseResult) => {
+			if (result.isFail() || result.isTimeout()) failures++;
+			if (bail !== undefined && failures >= bail) bailController.abort();
+			onTestCaseResult(result);
+		};
+
+		const createWorker = () => {
+			return new PooledWorker(
+				this._clock,
+				this._takeWorkerFn(),
+				renderErrorFn,
+				onResult,
+				previousResults,
+				signal,
+				bailController.signal,
+			);
+		};
+		const workers = Array.from({ length: workerCount }, createWorker);
+
+		// In resilient mode, a crashed worker fails the module it was working on, then gets replaced
+		const recoverAsync = async (slot: number, err: unknown): Promise<TestSuiteResult> => {
+			if (!this._resilient || !(err instanceof WorkerFailure)) throw err;
+
+			await workers[slot]!.killAsync();
+			workers[slot] = createWorker();
+			return err.moduleResult;
+		};
+
+		try {
+			// '.only' has to work across modules, so we have to load every module before we can run any of them
+			const { isDotOnly, failures } = await loadModulesAsync(workers, modulePaths, recoverAsync);
+			const results = await runModulesAsync(workers, modulePaths, isDotOnly, failures, recoverAsync, {
+				timeout,
+				config,
+				filter,
+				order,
+				seed,
+				bail,
+				detectLeaks,
+				renderer,
+			});
+			return TestSuiteResult.create({ tests: results, seed });
+		}
+		catch (err) {
+			if (err instanceof WorkerFailure) return withSeed(err.result, seed);
+			else if (err instanceof RunCancelled) {
+				return TestSuiteResult.create({ tests: previousResults, cancelled: true, seed });
+			}
+			else throw err;
+		}
+		finally {
+			await Promise.all(workers.map(worker => worker.killAsync()));
+		}
+	}
+
+}
+
+type RecoverFn = (slot: number, err: unknown) => Promise<TestSuiteResult>;
+
+async function loadModulesAsync(
+	workers: PooledWorker[],
+	modulePaths: string[],
+	recoverAsync: RecoverFn,
+): Promise<{ isDotOnly: boolean[], failures: TestSuiteResult[] }> {
+	const isDotOnly: boolean[] = [];
+	const failures: TestSuiteResult[] = [];
+	let nextIndex = 0;
+
+	await Promise.all(workers.map(async (_, slot) => {
+		while (nextIndex < modulePaths.length) {
+			const index = nextIndex++;
+			try {
+				isDotOnly[index] = await workers[slot]!.loadAsync(modulePaths[index]!);
+			}
+			catch (err) {
+				failures[index] = await recoverAsync(slot, err);
+				isDotOnly[index] = false;
+			}
+		}
+	}));
+
+	return { isDotOnly, failures };
+}
+
+async function runModulesAsync(
+	workers: PooledWorker[],
+	modulePaths: string[],
+	isDotOnly: boolean[],
+	failures: TestSuiteResult[],
+	recoverAsync: RecoverFn,
+	options: RunModuleOptions,
+): Promise<TestSuiteResult[]> {
+	const anyDotOnly = isDotOnly.some(dotOnly => dotOnly);
+	const results: TestSuiteResult[] = [ ...failures ];
+	const indices = modulePaths.map((_, index) => index).filter(index => failures[index] === undefined);
+	// The modules run in random order, but the results stay in the same order as modulePaths
+	const queue = createShuffleFn(options.seed)(indices, "");
+
+	await Promise.all(workers.map(async (_, slot) => {
+		let index;
+		while ((index = takeNextModule(workers[slot]!)) !== undefined) {
+			const skip = anyDotOnly && !isDotOnly[index];
+			try {
+				results[index] = await workers[slot]!.runModuleAsync(modulePaths[index]!, skip, options);
+			}
+			catch (err) {
+				results[index] = await recoverAsync(slot, err);
+			}
+		}
+	}));
+
+	return results;
+
+	function takeNextModule(worker: PooledWorker): number | undefined {
+		// prefer modules the worker has already loaded, so they don't have to be imported a second time
+		let position = queue.findIndex(index => worker.hasLoaded(modulePaths[index]!));
+		if (position === -1) position = 0;
+		return queue.splice(position, 1)[0];
+	}
+}
+
+
+/**
+ * Runs global setup in a worker of its own, for runs that use more than one worker.
+ */
+class SetupWorker {
+
+	private readonly _worker?: TestWorker;
+	private readonly _config: Record<string, unknown>;
+
+	static async setupAsync(globalSetup: string[] = [], takeWorkerFn: () => TestWorker): Promise<SetupWorker> {
+		if (globalSetup.length === 0) return new SetupWorker(undefined, {});
+
+		const worker = takeWorkerFn();
+		try {
+			const message = await requestAsync(worker, { type: "setup", globalSetup });
+			if (message.type !== "setupComplete") {
+				ensure.unreachable(`Expected 'setupComplete' message from worker, but got '${message.type}'`);
+			}
+			return new SetupWorker(worker, message.config);
+		}
+		catch (err) {
+			await killWorkerAsync(worker);
+			throw err;
+		}
+	}
+
+	/** For internal use only. (Use a factory method instead.) */
+	constructor(worker: TestWorker | undefined, config: Record<string, unknown>) {
+		this._worker = worker;
+		this._config = config;
+	}
+
+	get config(): Record<string, unknown> {
+		return this._config;
+	}
+
+	async teardownAsync(): Promise<void> {
+		if (this._worker === undefined) return;
+
+		try {
+			await requestAsync(this._worker, { type: "teardown" });
+		}
+		finally {
+			await killWorkerAsync(this._worker);
+		}
+	}
+
+}
+
+async function requestAsync(worker: TestWorker, input: SetupInput | TeardownInput): Promise<WorkerOutput> {
+	return await new Promise<WorkerOutput>((resolve, reject) => {
+		worker.on("message", (message: WorkerOutput) => {
+			if (message.type === "fatal") reject(new Error(message.message, { cause: message.err }));
+			else if (message.type === "setupComplete" || message.type === "tornDown") resolve(message);
 		});
+		worker.on("close", () => reject(new Error("Global setup exited early (probably by calling `process.exit()`)")));
+		worker.on("error", reject);
+		worker.send(input);
+	});
+}
+
+
+class PooledWorker {
+
+	private readonly _worker: TestWorker;
+	private readonly _loadedModules = new Set<string>();
+	private readonly _cancelKeepAliveFn: () => void;
+	private readonly _signal?: AbortSignal;
+	private readonly _bailSignal: AbortSignal;
+	private readonly _cancel = () => this.#fail(new RunCancelled());
+	private readonly _bail = () => this._worker.send({ type: "bail" });
+	private _runningTest?: RunningTest;
+	private _modulePath?: string;
+	private _moduleResults: TestCaseResult[] = [];
+	private _isDone = false;
+	private _failure?: unknown;
+	private _pending?: { resolve: (message: WorkerOutput) => void, reject: (err: unknown) => void };
+
+	constructor(
+		clock: Clock,
+		worker: TestWorker,
+		renderError: RenderErrorFn | undefined,
+		onTestCaseResult: (testCaseResult: TestCaseResult) => void,
+		previousResults: TestCaseResult[],
+		signal: AbortSignal | undefined,
+		bailSignal: AbortSignal,
+	) {
+		this._worker = worker;
+		this._signal = signal;
+		this._bailSignal = bailSignal;
+
+		const failWithWatchdog = (errorMessage: string) => {
+			const failure = createWatchdogFailureAndNotifyCaller(
+				errorMessage,
+				renderError,
+				onTestCaseResult,
+				this._runningTest,
+				this._modulePath,
+			);
+			this.#fail(new WorkerFailure(
+				TestSuiteResult.create({ tests: [ ...previousResults, failure ] }),
+				this.#createModuleResult([ ...this._moduleResults, failure ]),
+			));
+		};
+
+		const { aliveFn, cancelFn } = clock.keepAlive(KEEPALIVE_TIMEOUT_IN_MS, () => {
+			failWithWatchdog("Detected infinite loop in tests");
+		});
+		this._cancelKeepAliveFn = cancelFn;
+
+		this._worker.on("close", () => {
+			if (this._isDone) return;
+			failWithWatchdog("Tests exited early (probably by calling `process.exit()`)");
+		});
+
+		this._worker.on("error", error => {
+			this.#fail(error);
+		});
+
+		this._worker.on("message", (message: WorkerOutput) => {
+			// a worker that reported an unhandled error keeps running, but its module has already been recorded as failed
+			if (this._isDone) return;
+
+			switch (message.type) {
+				case "ready":
+					break;
+				case "keepalive":
+					aliveFn();
+					break;
+				case "testStart":
+					this._runningTest = { name: message.name, filename: message.filename };
+					break;
+				case "progress": {
+					const result = TestCaseResult.deserialize(message.result);
+					this._runningTest = undefined;
+					previousResults.push(result);
+					this._moduleResults.push(result);
+					onTestCaseResult(result);
+					break;
+				}
+				case "loaded":
+				case "complete":
+					this.#succeed(message);
+					break;
+				case "unhandled":
+					// the worker already reported the unhandled error as progress, so it's in the previous results
+					this.#fail(new WorkerFailure(
+						TestSuiteResult.create({ tests: [ ...previousResults ] }),
+						this.#createModuleResult([ ...this._moduleResults ]),
+					));
+					break;
+				case "fatal":
+					this.#fail(new Error(message.message, { cause: message.err }));
+					break;
+				case "setupComplete":
+				case "tornDown":
+					this.#fail(new Error(`Test runner received unexpected '${message.type}' message from worker process`));
+					break;
+				default:
+					// @ts-expect-error TypeScript thinks this is unreachable, but we check it just in case
+					ensure.unreachable(`Unknown message type '${message.type}' from test runner: ${JSON.stringify(message)}`);
+			}
+		});
+
+		if (signal?.aborted) this._cancel();
+		else signal?.addEventListener("abort", this._cancel);
+
+		if (bailSignal.aborted) this._bail();
+		else bailSignal.addEventListener("abort", this._bail);
+	}
+
+	hasLoaded(modulePath: string): boolean {
+		return this._loadedModules.has(modulePath);
+	}
+
+	async loadAsync(modulePath: string): Promise<boolean> {
+		const message = await this.#requestAsync({ type: "load", modulePath });
+		if (message.type !== "loaded") {
+			ensure.unreachable(`Expected 'loaded' message from worker, but got '${message.type}'`);
+		}
+
+		this._loadedModules.add(modulePath);
+		return message.isDotOnly;
+	}
+
+	async runModuleAsync(
+		modulePath: string,
+		skip: boolean,
+		{ timeout, config, filter, order, seed, bail, detectLeaks, renderer }: RunModuleOptions,
+	): Promise<TestSuiteResult> {
+		const message = await this.#requestAsync({
+			type: "runModule",
+			modulePath,
+			skip,
+			timeout,
+			config,
+			filter,
+			order,
+			seed,
+			bail,
+			detectLeaks,
+			renderer,
+		});
+		if (message.type !== "complete") {
+			ensure.unreachable(`Expected 'complete' message from worker, but got '${message.type}'`);
+		}
+
+		this._loadedModules.add(modulePath);
+		return TestSuiteResult.deserialize(message.result);
+	}
+
+	async killAsync(): Promise<void> {
+		this.#stop();
+		await killWorkerAsync(this._worker);
+	}
+
+	async #requestAsync(input: LoadModuleInput | RunModuleInput): Promise<WorkerOutput> {
+		return await new Promise<WorkerOutput>((resolve, reject) => {
+			if (this._failure !== undefined) return reject(this._failure);
+
+			this._modulePath = input.modulePath;
+			this._moduleResults = [];
+			this._pending = { resolve, reject };
+			this._worker.send(input);
+		});
+	}
+
+	#createModuleResult(tests: TestCaseResult[]): TestSuiteResult {
+		return TestSuiteResult.create({ tests, filename: this._modulePath });
+	}
+
+	#succeed(message: WorkerOutput) {
+		const pending = this._pending;
+		this._pending = undefined;
+		pending?.resolve(message);
+	}
+
+	#fail(err: unknown) {
+		this.#stop();
+		this._failure ??= err;
+
+		const pending = this._pending;
+		this._pending = undefined;
+		pending?.reject(this._failure);
+	}
+
+	#stop() {
+		this._isDone = true;
+		this._cancelKeepAliveFn();
+		this._signal?.removeEventListener("abort", this._cancel);
+		this._bailSignal.removeEventListener("abort", this._bail);
+	}
+
+}
+
+class RunCancelled {}
+
+class WorkerFailure {
+
+	readonly result: TestSuiteResult;
+	readonly moduleResult: TestSuiteResult;
+
+	constructor(result: TestSuiteResult, moduleResult: TestSuiteResult) {
+		this.result = result;
+		this.moduleResult = moduleResult;
 	}
 
-	#workerIsRunning() {
-		return this._worker.exitCode === null;
+}
+
+async function selectModulesAsync(
+	modulePaths: string[],
+	{ glob = false, changedFiles, shard }: ModuleSelectionOptions,
+): Promise<string[]> {
+	const globOptions = glob === true ? {} : glob;
+	if (globOptions !== false) modulePaths = await expandGlobsAsync(modulePaths, globOptions);
+	if (changedFiles !== undefined) modulePaths = await findDependentModulesAsync(modulePaths, changedFiles);
+	if (shard !== undefined) {
+		const cwd = (globOptions === false ? undefined : globOptions.cwd) ?? process.cwd();
+		modulePaths = await selectShardAsync(modulePaths, shard, cwd);
 	}
+	return modulePaths;
+}
 
+function chooseSeed(order: TestOrder | undefined, seed: number | undefined): number | undefined {
+	validateOrder(order, seed);
+
+	// Choose the seed here, rather than in the worker, so it's recorded even if the worker crashes
+	return order === "random" ? seed ?? generateSeed() : undefined;
+}
+
+function withSeed(result: TestSuiteResult, seed: number | undefined): TestSuiteResult {
+	if (seed === undefined || result.seed === seed) return result;
+
+	const { name, tests, beforeAll, afterAll, filename, mark, cancelled } = result;
+	return TestSuiteResult.create({ name, tests, beforeAll, afterAll, filename, mark, cancelled, seed });
+}
+
+function forkWorker({ execArgv = [], env = {}, imports = [] }: ForkOptions = {}): ChildProcess {
+	return child_process.fork(WORKER_FILENAME, {
+		serialization: "advanced",
+		detached: false,
+		execArgv: [
+			...process.execArgv,
+			...TYPESCRIPT_EXEC_ARGV,
+			...imports.flatMap(importPath => [ "--import", importPath ]),
+			...execArgv,
+		],
+		env: { ...process.env, ...env },
+	});
+}
+
+/**
+ * Adapts a worker thread so it can be used in place of a child process.
+ */
+class ThreadWorker implements TestWorker {
+
+	private readonly _thread: worker_threads.Worker;
+	private _exitCode: number | null = null;
+
+	constructor() {
+		this._thread = new worker_threads.Worker(WORKER_FILENAME);
+		this._thread.on("exit", exitCode => {
+			this._exitCode = exitCode;
+		});
+	}
+
+	get exitCode(): number | null {
+		return this._exitCode;
+	}
+
+	get signalCode(): string | null {
+		return null;
+	}
+
+	on(event: string, listener: ((message: WorkerOutput) => void) | (() => void) | ((error: Error) => void)) {
+		// worker threads don't have a 'close' event; 'exit' is the equivalent
+		this._thread.on(event === "close" ? "exit" : event, listener);
+	}
+
+	send(message: WorkerInput) {
+		this._thread.postMessage(message);
+	}
+
+	kill() {
+		this._thread.terminate();
+	}
+
+}
+
+async function waitUntilReadyAsync(worker: TestWorker): Promise<void> {
+	// If the worker exits first, it will be removed from the idle list, so there's nothing to wait for
+	await new Promise<void>((resolve) => {
+		worker.on("message", (message: WorkerOutput) => {
+			if (message.type === "ready") resolve();
+		});
+		worker.on("exit", resolve);
+	});
+}
+
+async function killWorkerAsync(worker: TestWorker): Promise<void> {
+	await new Promise<void>((resolve, reject) => {
+		if (worker.exitCode !== null || worker.signalCode !== null) return resolve();
+
+		worker.kill("SIGKILL");    // specific signal not tested
+		worker.on("close", resolve);
+		worker.on("error", reject);
+	});
 }
 
 function createWatchdogFailureAndNotifyCaller(
 	errorMessage: string,
 	renderError: RenderErrorFn | undefined,
 	onTestCaseResult: (result: TestCaseResult) => void,
-) {
+	runningTest: RunningTest | undefined,
+	modulePath?: string,
+): TestCaseResult {
+	// If we know which test was running, blame it; otherwise, the failure happened outside of a test
 	const testCaseResult = TestCaseResult.create({
-		it: RunResult.fail({ name: [ "Test runner watchdog" ], error: errorMessage, renderError }),
-	});
-	const testSuiteResult = TestSuiteResult.create({
-		tests: [ testCaseResult ],
+		it: RunResult.fail({
+			name: runningTest?.name ?? [ "Test runner watchdog" ],
+			filename: runningTest?.filename ?? modulePath,
+			error: errorMessage,
+			renderError,
+		}),
 	});
 	onTestCaseResult(testCaseResult);
-	return testSuiteResult;
+	return testCaseResult;
 }
\ No newline at end of file
@@ -1,22 +1,55 @@
 // Copyright Titanium I.T. LLC. License granted under terms of "The MIT License."
-import { importRendererAsync } from "../tests/test_suite.js";
-import { RunResult, TestCaseResult, TestSuiteResult } from "../results/test_result.js";
+import { importRendererAsync, TestSuite } from "../tests/test_suite.js";
+import { RenderErrorFn, RunResult, TestCaseResult, TestMark, TestSuiteResult } from "../results/test_result.js";
 import { Clock } from "../../infrastructure/clock.js";
 import process from "node:process";
-import { WorkerInput } from "./test_runner.js";
-import { fromModulesAsync } from "./loader.js";
+import { parentPort } from "node:worker_threads";
+import { LoadModuleInput, RunModuleInput, RunModulesInput, SetupInput, WorkerInput } from "./test_runner.js";
+import { fromModuleAsync, fromModulesAsync } from "./loader.js";
+import { reportUnhandledError } from "../tests/unhandled_errors.js";
+import { GlobalSetup } from "../tests/global_setup.js";
 
 const KEEPALIVE_INTERVAL_IN_MS = 100;
 
+const loadedModules = new Map<string, TestSuite>();
+const bailController = new AbortController();
+let globalSetup: GlobalSetup | undefined;
+let isHandlingUncaughtExceptions = false;
+
 main();
 
 function main() {
 	const cancelKeepAliveFn = Clock.create().repeat(KEEPALIVE_INTERVAL_IN_MS, () => {
-		process.send!({ type: "keepalive" });
+		send({ type: "keepalive" });
 	});
+	send({ type: "ready" });
 
-	process.on("message", (workerData) => {
-		runWorkerAsync(cancelKeepAliveFn, workerData as WorkerInput);
+	onMessage((message) => {
+		const workerInput = message as WorkerInput;
+		switch (workerInput.type) {
+			case "run":
+				runWorkerAsync(cancelKeepAliveFn, workerInput);
+				break;
+			case "load":
+				loadModuleAsync(cancelKeepAliveFn, workerInput);
+				break;
+			case "runModule":
+				runModuleAsync(cancelKeepAliveFn, workerInput);
+				break;
+			case "bail":
+				// another worker's tests failed, so tests in this worker shouldn't run either
+				bailController.abort();
+				break;
+			case "setup":
+				setupAsync(cancelKeepAliveFn, workerInput);
+				break;
+			case "teardown":
+				teardownAsync(cancelKeepAliveFn);
+				break;
+			default:
+				// @ts-expect-error TypeScript thinks this is unreachable, but we check it just in case
+				sendFatalError(`Unknown message type '${workerInput.type}' from test runner`, message, cancelKeepAliveFn);
+		}
 	});
 	process.on("error", (err) => {
 		if ((err as { code: string })?.code === "ERR_IPC_CHANNEL_CLOSED") {
@@ -34,28 +67,114 @@ function main() {
 
 async function runWorkerAsync(
 	cancelKeepAliveFn: () => void,
-	{ modulePaths, timeout, config, renderer }: WorkerInput
+	{ modulePaths, globalSetup, timeout, config, filter, order, seed, bail, detectLeaks, renderer }: RunModulesInput,
 ) {
 	try {
 		const renderError = await importRendererAsync(renderer);
+		handleUncaughtExceptions(renderError, cancelKeepAliveFn);
 
-		process.on("uncaughtException", (error) => {
-			const testCaseResult = TestCaseResult.create({
-				it: RunResult.fail({ name: [ "Unhandled error in tests" ], error, renderError }),
+		// Global setup runs before the test modules are loaded, so the modules can depend on it
+		const setup = await GlobalSetup.setupAsync(globalSetup);
+		let result;
+		try {
+			const suite = await fromModulesAsync(modulePaths);
+			result = await suite.runAsync({
+				timeout,
+				config: { ...config, ...setup.config },
+				filter,
+				order,
+				seed,
+				bail,
+				detectLeaks,
+				renderer,
+				onTestCaseResult: sendProgress,
+				onTestCaseStart: sendTestStart,
 			});
-			const testSuiteResult = TestSuiteResult.create({
-				tests: [ testCaseResult ],
-			});
-			sendProgress(testCaseResult);
-			sendFinalResult(testSuiteResult, cancelKeepAliveFn);
+		}
+		finally {
+			await setup.teardownAsync();
+		}
+
+		// wait a tick so unhandled promises can be detected
+		setImmediate(() => {
+			sendFinalResult(result, cancelKeepAliveFn);
 		});
+	}
+	catch (err) {
+		sendFatalError("Ergotest worker process encountered exception", err, cancelKeepAliveFn);
+	}
+}
 
-		const suite = await fromModulesAsync(modulePaths);
-		const result = await suite.runAsync({ timeout, config, renderer, onTestCaseResult: sendProgress });
+// Parallel and resilient runs use a separate worker for global setup, so it only runs once per run
+async function setupAsync(cancelKeepAliveFn: () => void, { globalSetup: modulePaths }: SetupInput) {
+	try {
+		globalSetup = await GlobalSetup.setupAsync(modulePaths);
+		send({ type: "setupComplete", config: globalSetup.config });
+	}
+	catch (err) {
+		sendFatalError("Ergotest worker process encountered exception", err, cancelKeepAliveFn);
+	}
+}
+
+async function teardownAsync(cancelKeepAliveFn: () => void) {
+	try {
+		await globalSetup?.teardownAsync();
+		send({ type: "tornDown" });
+	}
+	catch (err) {
+		sendFatalError("Ergotest worker process encountered exception", err, cancelKeepAliveFn);
+	}
+}
+
+async function loadModuleAsync(cancelKeepAliveFn: () => void, { modulePath }: LoadModuleInput) {
+	try {
+		const suite = await fromModuleAsync(modulePath);
+		loadedModules.set(modulePath, suite);
+
+		send({ type: "loaded", isDotOnly: suite._isDotOnly() });
+	}
+	catch (err) {
+		sendFatalError("Ergotest worker process encountered exception", err, cancelKeepAliveFn);
+	}
+}
+
+async function runModuleAsync(
+	cancelKeepAliveFn: () => void,
+	{ modulePath, skip, timeout, config, filter, order, seed, bail, detectLeaks, renderer }: RunModuleInput,
+) {
+	try {
+		const renderError = await importRendererAsync(renderer);
+		handleUncaughtExceptions(renderError, cancelKeepAliveFn);
+
+		const moduleSuite = loadedModules.get(modulePath) ?? await fromModuleAsync(modulePath);
+
+		// Wrap the module the same way fromModulesAsync() does, so marks are inherited just like a single-process run.
+		// When another module is marked .only, and this one isn't, the wrapper's .skip mark causes it to be skipped.
+		const suite = TestSuite.create({ mark: skip ? TestMark.skip : TestMark.none, tests: [ moduleSuite ] });
+		const result = await suite.runAsync({
+			timeout,
+			config,
+			filter,
+			order,
+			seed,
+			bail,
+			detectLeaks,
+			renderer,
+			onTestCaseResult: sendProgress,
+			onTestCaseStart: sendTestStart,
+			bailSignal: bailController.signal,
+		});
+
+		// Unhandled errors that happened after their test finished are at the end of the wrapper's results
+		const [ moduleResult, ...lateFailures ] = result.tests;
+		const moduleResultWithLateFailures = TestSuiteResult.merge([
+			moduleResult as TestSuiteResult,
+			TestSuiteResult.create({ tests: lateFailures }),
+		]);
 
 		// wait a tick so unhandled promises can be detected
 		setImmediate(() => {
-			sendFinalResult(result, cancelKeepAliveFn);
+			send({ type: "complete", result: moduleResultWithLateFailures.serialize() });
 		});
 	}
 	catch (err) {
@@ -63,6 +182,40 @@ async function runWorkerAsync(
 	}
 }
 
+function handleUncaughtExceptions(renderError: RenderErrorFn | undefined, cancelKeepAliveFn: () => void) {
+	if (isHandlingUncaughtExceptions) return;
+	isHandlingUncaughtExceptions = true;
+
+	process.on("uncaughtException", handleUnhandledError);
+	process.on("unhandledRejection", handleUnhandledError);
+
+	function handleUnhandledError(error: unknown) {
+		// errors caused by a test fail that test, and the rest of the tests keep running
+		if (reportUnhandledError(error)) return;
+
+		const testCaseResult = TestCaseResult.create({
+			it: RunResult.fail({ name: [ "Unhandled error in tests" ], error, renderError }),
+		});
+		const testSuiteResult = TestSuiteResult.create({
+			tests: [ testCaseResult ],
+		});
+		sendProgress(testCaseResult);
+		cancelKeepAliveFn();
+		send({
+			type: "unhandled",
+			result: testSuiteResult.serialize(),
+		});
+	}
+}
+
+function sendTestStart(name: string[], filename?: string) {
+	send({
+		type: "testStart",
+		name,
+		filename,
+	});
+}
+
 function sendProgress(result: TestCaseResult) {
 	send({
 		type: "progress",
@@ -87,6 +240,14 @@ function sendFinalResult(result: TestSuiteResult, cancelKeepAliveFn: () => void)
 	});
 }
 
+// We can run in either a child process or a worker thread, and they use different communication channels
+
+function onMessage(listener: (message: unknown) => void) {
+	if (parentPort !== null) parentPort.on("message", listener);
+	else process.on("message", listener);
+}
+
 function send(message: unknown) {
-	process.send!(message);
+	if (parentPort !== null) parentPort.postMessage(message);
+	else process.send!(message);
 }
\ No newline at end of file
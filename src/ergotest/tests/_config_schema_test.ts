@@ -0,0 +1,83 @@
+// Copyright Titanium I.T. LLC. License granted under terms of "The MIT License."
+import { assert, describe, it } from "../../util/tests.js";
+import { ConfigType, getConfigValue, validateConfig } from "./config_schema.js";
+
+const SCHEMA = {
+	port: Number,
+	host: [ undefined, String ],
+	nested: { enabled: Boolean },
+};
+
+export default describe(() => {
+
+	it("validates config against the schema", () => {
+		validateConfig({ port: 5432, nested: { enabled: true } }, SCHEMA);
+		validateConfig({ anything: "goes" }, undefined);
+
+		assert.error(
+			() => validateConfig({ port: "5432", nested: { enabled: true } }, SCHEMA),
+			"config.port must be a number, but it was a string",
+		);
+		assert.error(
+			() => validateConfig({ port: 5432, nested: {} }, SCHEMA),
+			"config.nested.enabled must be a boolean, but it was undefined",
+		);
+		assert.error(
+			() => validateConfig({ port: 5432, nested: { enabled: true }, prot: 5432 }, SCHEMA),
+			"config had unexpected parameter: prot",
+		);
+	});
+
+	it("retrieves config values", () => {
+		const config = { port: 5432, nested: { enabled: true } };
+
+		assert.equal(getConfigValue(config, "port"), 5432, "without schema");
+		assert.equal(getConfigValue(config, "port", SCHEMA), 5432, "with schema");
+		assert.isUndefined(getConfigValue(config, "host", SCHEMA), "optional value");
+	});
+
+	it("fails fast when config values are missing or don't match the schema", () => {
+		assert.error(() => getConfigValue({}, "port"), "No test config found for name 'port'");
+		assert.error(
+			() => getConfigValue({ port: "5432" }, "port", SCHEMA),
+			"config.port must be a number, but it was a string",
+		);
+		assert.error(
+			() => getConfigValue({ prot: 5432 }, "prot", SCHEMA),
+			"Test config 'prot' isn't in the config schema",
+		);
+	});
+
+	it("infers TypeScript types from the schema", () => {
+		const schema = {
+			string: String,
+			number: Number,
+			boolean: Boolean,
+			array: Array,
+			instance: Date,
+			optional: [ undefined, String ],
+			nested: { value: Number },
+		};
+
+		const config: ConfigType<typeof schema> = {
+			string: "string",
+			number: 1,
+			boolean: true,
+			array: [ "anything" ],
+			instance: new Date(0),
+			optional: undefined,
+			nested: { value: 1 },
+		};
+		const instance: Date = config.instance;
+		const optional: string | undefined = config.optional;
+		const nested: number = config.nested.value;
+
+		// @ts-expect-error wrong type
+		const wrongType: ConfigType<typeof schema>["number"] = "not a number";
+		// @ts-expect-error not in schema
+		const notInSchema = config.nmber;
+
+		assert.equal([ instance, optional, nested, wrongType, notInSchema ], [ new Date(0), undefined, 1, "not a number", undefined ]);
+	});
+
+});
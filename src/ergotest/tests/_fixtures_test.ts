@@ -0,0 +1,36 @@
+// Copyright Titanium I.T. LLC. License granted under terms of "The MIT License."
+import { assert, describe, it } from "../../util/tests.js";
+import { extendFixtures } from "./fixtures.js";
+
+export default describe(() => {
+
+	const FIXTURE_FN = () => {};
+
+	it("combines fixtures", () => {
+		const base = extendFixtures({}, { a: FIXTURE_FN });
+		const extended = extendFixtures(base, { b: FIXTURE_FN });
+
+		assert.equal(Object.keys(base), [ "a" ], "should not modify base fixtures");
+		assert.equal(Object.keys(extended), [ "a", "b" ]);
+	});
+
+	it("fails fast when fixtures are invalid", () => {
+		assert.error(
+			() => extendFixtures({}, { getConfig: FIXTURE_FN }),
+			"Fixture name 'getConfig' is reserved",
+		);
+		assert.error(
+			() => extendFixtures({}, { skip: FIXTURE_FN }),
+			"Fixture name 'skip' is reserved",
+		);
+		assert.error(
+			() => extendFixtures({ a: FIXTURE_FN }, { a: FIXTURE_FN }),
+			"Fixture 'a' is already defined",
+		);
+		assert.error(
+			() => extendFixtures({}, { a: "not a function" }),
+			"fixture 'a' must be a function, but it was a string",
+		);
+	});
+
+});
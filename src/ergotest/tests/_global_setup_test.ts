@@ -0,0 +1,126 @@
+// Copyright Titanium I.T. LLC. License granted under terms of "The MIT License."
+import { assert, beforeEach, describe, it } from "../../util/tests.js";
+import { GlobalSetup } from "./global_setup.js";
+import fs from "node:fs/promises";
+
+interface SetupGlobals {
+	globalSetupCalls?: string[],
+}
+
+const globals = globalThis as SetupGlobals;
+let nonce = 0;
+
+export default describe(() => {
+
+	let testDir: string;
+
+	beforeEach(async ({ getConfig }) => {
+		testDir = getConfig<string>("scratchDir");
+		await fs.rm(testDir, { recursive: true, force: true });
+		await fs.mkdir(testDir, { recursive: true });
+		globals.globalSetupCalls = [];
+	});
+
+	it("runs setup functions in order and merges the configuration they return", async () => {
+		const modulePaths = [
+			await writeModuleAsync(`export function setup() { record("setup 1"); return { a: 1, b: 1 }; }`),
+			await writeModuleAsync(`export async function setup() { record("setup 2"); return { b: 2 }; }`),
+			await writeModuleAsync(`export function setup() { record("setup 3"); }`),
+		];
+
+		const setup = await GlobalSetup.setupAsync(modulePaths);
+
+		assert.equal(globals.globalSetupCalls, [ "setup 1", "setup 2", "setup 3" ]);
+		assert.equal(setup.config, { a: 1, b: 2 });
+	});
+
+	it("runs teardown functions in reverse order", async () => {
+		const setup = await GlobalSetup.setupAsync([
+			await writeModuleAsync(`export function teardown() { record("teardown 1"); }`),
+			await writeModuleAsync(`export async function teardown() { record("teardown 2"); }`),
+		]);
+
+		await setup.teardownAsync();
+		assert.equal(globals.globalSetupCalls, [ "teardown 2", "teardown 1" ]);
+
+		await setup.teardownAsync();
+		assert.equal(globals.globalSetupCalls, [ "teardown 2", "teardown 1" ], "should only tear down once");
+	});
+
+	it("does nothing when there are no modules", async () => {
+		const setup = await GlobalSetup.setupAsync();
+
+		assert.equal(setup.config, {});
+		await setup.teardownAsync();
+	});
+
+	it("tears down modules that were already set up when a setup function fails", async () => {
+		const modulePaths = [
+			await writeModuleAsync(`
+				export function setup() { record("setup 1"); }
+				export function teardown() { record("teardown 1"); }
+			`),
+			await writeModuleAsync(`
+				export function setup() { throw new Error("my error"); }
+				export function teardown() { record("teardown 2"); }
+			`),
+		];
+
+		await assert.errorAsync(
+			() => GlobalSetup.setupAsync(modulePaths),
+			`Global setup module's setup() function failed: ${modulePaths[1]}`,
+		);
+		assert.equal(globals.globalSetupCalls, [ "setup 1", "teardown 1" ]);
+	});
+
+	it("runs every teardown function, even when one fails", async () => {
+		const modulePaths = [
+			await writeModuleAsync(`export function teardown() { record("teardown 1"); }`),
+			await writeModuleAsync(`export function teardown() { throw new Error("my error"); }`),
+		];
+		const setup = await GlobalSetup.setupAsync(modulePaths);
+
+		await assert.errorAsync(
+			() => setup.teardownAsync(),
+			`Global setup module's teardown() function failed: ${modulePaths[1]}`,
+		);
+		assert.equal(globals.globalSetupCalls, [ "teardown 1" ]);
+	});
+
+	it("fails fast when modules are invalid", async () => {
+		const notFound = `${testDir}/no_such_module.js`;
+		await assert.errorAsync(
+			() => GlobalSetup.setupAsync([ notFound ]),
+			`Global setup module not found (did you forget to use an absolute path?): ${notFound}`,
+		);
+
+		const noExports = await writeModuleAsync(`export const foo = 1;`);
+		await assert.errorAsync(
+			() => GlobalSetup.setupAsync([ noExports ]),
+			`Global setup module doesn't export a setup() or teardown() function: ${noExports}`,
+		);
+
+		const notFunction = await writeModuleAsync(`export const teardown = "not a function";`);
+		await assert.errorAsync(
+			() => GlobalSetup.setupAsync([ notFunction ]),
+			`Global setup module's 'teardown' export must be a function, but it was a string: ${notFunction}`,
+		);
+
+		const badConfig = await writeModuleAsync(`export function setup() { return [ "not an object" ]; }`);
+		await assert.errorAsync(
+			() => GlobalSetup.setupAsync([ badConfig ]),
+			`Global setup module's setup() function must return an object or undefined, but it returned an array: ` +
+				badConfig,
+		);
+	});
+
+	async function writeModuleAsync(sourceCode: string): Promise<string> {
+		const modulePath = `${testDir}/_global_setup_module_${nonce++}.js`;
+		await fs.writeFile(modulePath, `
+			function record(call) { globalThis.globalSetupCalls.push(call); }
+			${sourceCode}
+		`);
+		return modulePath;
+	}
+
+});
@@ -0,0 +1,102 @@
+// Copyright Titanium I.T. LLC. License granted under terms of "The MIT License."
+import { assert, describe, it } from "../../util/tests.js";
+import { describeLeaks, LeakDetector, validateLeakDetection } from "./leak_detector.js";
+import { Clock } from "../../infrastructure/clock.js";
+import net from "node:net";
+
+export default describe(() => {
+
+	it("detects timers that are still active", async () => {
+		const detector = LeakDetector.start();
+		const interval = setInterval(() => {}, 10000);
+		try {
+			const leaks = await detector.stopAsync(Clock.create());
+
+			assert.equal(leaks.map(leak => leak.type), [ "Timeout" ]);
+			assert.includes(leaks[0]!.stack, "_leak_detector_test.", "should include stack where timer was created");
+			assert.notIncludes(leaks[0]!.stack, "captureStack", "shouldn't include detector in stack");
+			assert.notIncludes(leaks[0]!.stack, "node:", "shouldn't include Node internals in stack");
+		}
+		finally {
+			clearInterval(interval);
+		}
+	});
+
+	it("detects servers that are still listening", async () => {
+		const detector = LeakDetector.start();
+		const server = net.createServer();
+		await new Promise<void>(resolve => server.listen(0, resolve));
+		try {
+			const leaks = await detector.stopAsync(Clock.create());
+			assert.equal(leaks.map(leak => leak.type), [ "TCPSERVERWRAP" ]);
+		}
+		finally {
+			await new Promise(resolve => server.close(resolve));
+		}
+	});
+
+	it("doesn't report resources that have been cleaned up", async () => {
+		const detector = LeakDetector.start();
+
+		clearTimeout(setTimeout(() => {}, 10000));
+		clearInterval(setInterval(() => {}, 10000));
+		await new Promise(resolve => setTimeout(resolve, 0));
+		const server = net.createServer();
+		await new Promise<void>(resolve => server.listen(0, resolve));
+		await new Promise(resolve => server.close(resolve));
+
+		assert.equal(await detector.stopAsync(Clock.create()), []);
+	});
+
+	it("doesn't report resources that don't keep the process running", async () => {
+		const detector = LeakDetector.start();
+		const interval = setInterval(() => {}, 10000).unref();
+		try {
+			assert.equal(await detector.stopAsync(Clock.create()), []);
+		}
+		finally {
+			clearInterval(interval);
+		}
+	});
+
+	it("only tracks resources created while it's running", async () => {
+		const before = setInterval(() => {}, 10000);
+		const detector = LeakDetector.start();
+		const leaks = await detector.stopAsync(Clock.create());
+		const after = setInterval(() => {}, 10000);
+
+		clearInterval(before);
+		clearInterval(after);
+		assert.equal(leaks, []);
+	});
+
+	it("describes leaks", () => {
+		assert.equal(
+			describeLeaks([ { type: "Timeout", stack: "    at stack 1" } ]),
+			"Test leaked 1 active resource, which can prevent the test run from exiting:\n\n" +
+			"Timeout\n    at stack 1",
+		);
+		assert.equal(
+			describeLeaks([
+				{ type: "Timeout", stack: "    at stack 1" },
+				{ type: "TCPWRAP", stack: "    at stack 2" },
+			]),
+			"Test leaked 2 active resources, which can prevent the test run from exiting:\n\n" +
+			"Timeout\n    at stack 1\n\n" +
+			"TCPWRAP\n    at stack 2",
+		);
+	});
+
+	it("validates leak detection mode", () => {
+		validateLeakDetection(undefined);
+		validateLeakDetection("warn");
+		validateLeakDetection("fail");
+
+		assert.error(
+			// @ts-expect-error testing invalid mode at runtime
+			() => validateLeakDetection("ignore"),
+			"Leak detection must be 'warn' or 'fail', but it was 'ignore'",
+		);
+	});
+
+});
@@ -0,0 +1,58 @@
+// Copyright Titanium I.T. LLC. License granted under terms of "The MIT License."
+import { assert, describe, it } from "../../util/tests.js";
+import { createShuffleFn, generateSeed, validateOrder } from "./random_order.js";
+
+const ITEMS = [ "a", "b", "c", "d", "e", "f", "g", "h", "i", "j" ];
+
+export default describe(() => {
+
+	it("shuffles items into a new list", () => {
+		const items = [ ...ITEMS ];
+		const shuffled = createShuffleFn(42)(items, "key");
+
+		assert.notEqual(shuffled, ITEMS, "should be shuffled");
+		assert.equal([ ...shuffled ].sort(), ITEMS, "should have the same items");
+		assert.equal(items, ITEMS, "shouldn't modify original list");
+	});
+
+	it("shuffles the same way every time for the same seed and key", () => {
+		assert.equal(createShuffleFn(42)(ITEMS, "key"), createShuffleFn(42)(ITEMS, "key"));
+	});
+
+	it("shuffles differently for different seeds and keys", () => {
+		const shuffled = createShuffleFn(42)(ITEMS, "key");
+
+		assert.notEqual(createShuffleFn(43)(ITEMS, "key"), shuffled, "different seed");
+		assert.notEqual(createShuffleFn(42)(ITEMS, "other key"), shuffled, "different key");
+	});
+
+	it("doesn't shuffle when there's no seed", () => {
+		assert.equal(createShuffleFn(undefined)(ITEMS, "key"), ITEMS);
+	});
+
+	it("handles empty lists, single items, and extreme seeds", () => {
+		assert.equal(createShuffleFn(42)([], "key"), [], "empty list");
+		assert.equal(createShuffleFn(42)([ "a" ], "key"), [ "a" ], "single item");
+
+		const seeds = [ 0, -1, Number.MAX_SAFE_INTEGER, Number.MIN_SAFE_INTEGER ];
+		seeds.forEach(seed => {
+			assert.equal([ ...createShuffleFn(seed)(ITEMS, "key") ].sort(), ITEMS, `seed ${seed}`);
+		});
+	});
+
+	it("generates integer seeds", () => {
+		const seed = generateSeed();
+		assert.isTrue(Number.isInteger(seed) && seed >= 0, `seed ${seed}`);
+	});
+
+	it("validates order and seed", () => {
+		validateOrder(undefined, undefined);
+		validateOrder("declared", undefined);
+		validateOrder("random", 42);
+
+		// @ts-expect-error testing invalid order at runtime
+		assert.error(() => validateOrder("sideways"), "Test order must be 'declared' or 'random', but it was 'sideways'");
+		assert.error(() => validateOrder("random", 1.5), "Seed must be an integer, but it was 1.5");
+	});
+
+});
@@ -1,11 +1,15 @@
 // Copyright Titanium I.T. LLC. License granted under terms of "The MIT License."
 import {
+	afterEach,
 	assert,
+	beforeEach,
 	createFail,
 	createPass,
+	createNotRun,
 	createSkip,
 	createSuite,
 	createTimeout,
+	createTodo,
 	describe,
 	it,
 } from "../../util/tests.js";
@@ -19,8 +23,9 @@ import {
 	it as it_sut,
 } from "./test_api.js";
 import { Clock } from "../../infrastructure/clock.js";
-import { TestCaseResult, TestMark, TestResult, TestStatus } from "../results/test_result.js";
+import { RunResult, TestCaseResult, TestMark, TestResult, TestStatus } from "../results/test_result.js";
 import path from "node:path";
+import fs from "node:fs/promises";
 import { fromModulesAsync } from "../runner/loader.js";
 // dependency: ./_module_throws.js
 // dependency: ../_renderer_custom.js
@@ -259,8 +264,8 @@ export default describe(() => {
 				createSkip({ name: "skip", mark: TestMark.skip, filename }),
 				createFail({ name: "fail", error: new Error("fail"), filename }),
 				createTimeout({ name: "timeout", timeout: DEFAULT_TIMEOUT, filename }),
-				createSkip({ name: "test without body", mark: TestMark.skip, filename }),
-				createSuite({ name: "suite without body", mark: TestMark.skip, filename }),
+				createTodo({ name: "test without body", mark: TestMark.todo, filename }),
+				createSuite({ name: "suite without body", mark: TestMark.todo, filename }),
 			]}));
 		});
 
@@ -337,6 +342,84 @@ export default describe(() => {
 			assert.dotEquals(result, createFail({ name: "my test", error }));
 		});
 
+		it("passes when test defined with it.fails() throws exception", async () => {
+			const suite = describe_sut(() => {
+				it_sut.fails("my test", () => {
+					console.log("before failure");
+					throw new Error("my error");
+				});
+			});
+
+			assert.dotEquals(await suite.runAsync(), createSuite({ tests: [
+				createPass({ name: "my test", expectedFailure: "my error", output: "before failure\n" }),
+			]}));
+		});
+
+		it("fails when test defined with it.fails() doesn't throw exception", async () => {
+			const suite = describe_sut(() => {
+				it_sut.fails("my test", PASS_FN);
+			});
+
+			assert.dotEquals(await suite.runAsync(), createSuite({ tests: [
+				createFail({ name: "my test", error: "Test was expected to fail, but it passed" }),
+			]}));
+		});
+
+		it("doesn't treat timeouts or skips as expected failures", async () => {
+			const clock = await Clock.createNullAsync();
+			const suite = describe_sut(() => {
+				it_sut.fails("timeout", async () => {
+					await clock.waitAsync(DEFAULT_TIMEOUT + 1);
+				});
+				it_sut.fails("skip", ({ skip }) => {
+					skip("my reason");
+				});
+			});
+
+			const resultPromise = suite.runAsync({ clock });
+			await clock.tickUntilTimersExpireAsync();
+
+			assert.dotEquals(await resultPromise, createSuite({ tests: [
+				createTimeout({ name: "timeout", timeout: DEFAULT_TIMEOUT }),
+				createSkip({ name: "skip", reason: "my reason" }),
+			]}));
+		});
+
+		it("captures output written to stdout, stderr, and console", async () => {
+			const error = new Error("my error");
+			const pass = await runTestAsync("my test", () => {
+				process.stdout.write("stdout\n");
+				process.stderr.write("stderr\n");
+				console.log("console");
+			});
+			const fail = await runTestAsync("my test", () => {
+				console.error("before failure");
+				throw error;
+			});
+
+			assert.dotEquals(pass, createPass({ name: "my test", output: "stdout\nstderr\nconsole\n" }), "pass");
+			assert.dotEquals(fail, createFail({ name: "my test", error, output: "before failure\n" }), "fail");
+		});
+
+		it("captures output of beforeEach() and afterEach() separately from test", async () => {
+			const suite = describe_sut(() => {
+				beforeEach_sut(() => {
+					console.log("before");
+				});
+				afterEach_sut(() => {
+					console.log("after");
+				});
+				it_sut("my test", () => {
+					console.log("test");
+				});
+			});
+
+			const result = (await suite.runAsync()).allTests()[0]!;
+			assert.equal(result.beforeEach[0]!.output, "before\n", "beforeEach()");
+			assert.equal(result.it.output, "test\n", "it()");
+			assert.equal(result.afterEach[0]!.output, "after\n", "afterEach()");
+		});
+
 		it("can retrieve config variables", async () => {
 			const myConfig = { myConfig: "my_config" };
 			let receivedConfig;
@@ -351,6 +434,65 @@ export default describe(() => {
 			assert.equal(receivedConfig, "my_config");
 		});
 
+		it("can retrieve typed config variables using a schema", async () => {
+			const configSchema = { port: Number, host: [ undefined, String ] };
+			let receivedPort: number | undefined;
+
+			const suite = describe_sut(() => {
+				it_sut(IRRELEVANT_NAME, ({ getConfig }) => {
+					receivedPort = getConfig("port", configSchema);
+
+					// @ts-expect-error misspelled config names are a type error
+					getConfig("prot", configSchema);
+				});
+			});
+
+			const results = await suite.runAsync({ config: { port: 5432 }, configSchema });
+			assert.equal(receivedPort, 5432);
+			assert.dotEquals(results, createSuite({ tests: [
+				createFail({ name: IRRELEVANT_NAME, error: new Error("Test config 'prot' isn't in the config schema") }),
+			]}));
+		});
+
+		it("fails fast when config doesn't match the schema", async () => {
+			let testRan = false;
+			const suite = describe_sut(() => {
+				it_sut(IRRELEVANT_NAME, () => {
+					testRan = true;
+				});
+			});
+
+			await assert.errorAsync(
+				() => suite.runAsync({ config: { prot: 5432 }, configSchema: { port: [ undefined, Number ] } }),
+				"config had unexpected parameter: prot",
+			);
+			await assert.errorAsync(
+				() => suite.runAsync({ config: { port: "5432" }, configSchema: { port: Number } }),
+				"config.port must be a number, but it was a string",
+			);
+			assert.equal(testRan, false, "shouldn't run tests");
+		});
+
+		it("runs global setup before tests and teardown after, and adds setup's config", async ({ getConfig }) => {
+			const setupPath = `${getConfig<string>("scratchDir")}/_test_suite_global_setup.js`;
+			await fs.mkdir(path.dirname(setupPath), { recursive: true });
+			await fs.writeFile(setupPath, `
+				export function setup() { globalThis.globalSetupCalls.push("setup"); return { fromSetup: "setup config" }; }
+				export function teardown() { globalThis.globalSetupCalls.push("teardown"); }
+			`);
+
+			const calls: string[] = [];
+			(globalThis as { globalSetupCalls?: string[] }).globalSetupCalls = calls;
+			const suite = describe_sut(() => {
+				it_sut(IRRELEVANT_NAME, ({ getConfig }) => {
+					calls.push(`test: ${getConfig("fromSetup")}, ${getConfig("fromCaller")}`);
+				});
+			});
+
+			await suite.runAsync({ config: { fromCaller: "caller config" }, globalSetup: [ setupPath ] });
+			assert.equal(calls, [ "setup", "test: setup config, caller config", "teardown" ]);
+		});
+
 		it("fails fast when no config defined", async () => {
 			const suite = describe_sut(() => {
 				it_sut(IRRELEVANT_NAME, ({ getConfig }) => {
@@ -748,7 +890,7 @@ export default describe(() => {
 					],
 					tests: [
 						createSkip({ name: "test 1", mark: "skip" }),
-						createSkip({ name: "test 2", mark: "skip" }),
+						createTodo({ name: "test 2", mark: "todo" }),
 					],
 				}));
 			});
@@ -1090,6 +1232,7 @@ export default describe(() => {
 					afterTime = clock.now();
 				});
 				it_sut("my test", async () => {
+					console.log("before timeout");
 					await clock.waitAsync(DEFAULT_TIMEOUT + 1);
 				});
 			});
@@ -1102,6 +1245,7 @@ export default describe(() => {
 					tests: [ createTimeout({
 						name: "my test",
 						timeout: DEFAULT_TIMEOUT,
+						output: "before timeout\n",
 						beforeEach: [ createPass({ name: "beforeEach()" })],
 						afterEach: [ createPass({ name: "afterEach()" })],
 					}) ]
@@ -1392,14 +1536,37 @@ export default describe(() => {
 
 	describe(".skip", () => {
 
-		it("skips and marks tests that have no function", async () => {
+		it("marks tests that have no function as todo, rather than skipped", async () => {
 			const suite = describe_sut(() => {
 				it_sut("my test");
+				it_sut.todo("todo test");
+				it_sut.skip("skipped test");
 			});
 
-			const result = (await suite.runAsync()).allTests()[0];
+			const result = await suite.runAsync();
+
+			assert.dotEquals(result, createSuite({ tests: [
+				createTodo({ name: "my test", mark: TestMark.todo }),
+				createTodo({ name: "todo test", mark: TestMark.todo }),
+				createTodo({ name: "skipped test", mark: TestMark.skip }),
+			]}));
+		});
+
+		it("doesn't run beforeEach() and afterEach() for todo tests", async () => {
+			const suite = describe_sut(() => {
+				beforeEach_sut(FAIL_FN);
+				afterEach_sut(FAIL_FN);
+				it_sut.todo("my test");
+			});
 
-			assert.dotEquals(result, createSkip({ name: "my test", mark: TestMark.skip }), "should be skipped");
+			assert.dotEquals(await suite.runAsync(), createSuite({ tests: [
+				createTodo({
+					name: "my test",
+					mark: TestMark.todo,
+					beforeEach: [ createSkip({ name: "beforeEach()" }) ],
+					afterEach: [ createSkip({ name: "afterEach()" }) ],
+				}),
+			]}));
 		});
 
 		it("skips and marks tests that have '.skip'", async () => {
@@ -1416,12 +1583,14 @@ export default describe(() => {
 			assert.equal(result.mark, TestMark.skip, "should be marked");
 		});
 
-		it("skips suites that have no function", async () => {
+		it("marks suites that have no function as todo, unless they're marked '.skip'", async () => {
 			const suite = await describe_sut("my suite").runAsync();
 			const noName = await describe_sut().runAsync();
+			const skipped = await describe_sut.skip("skipped suite").runAsync();
 
-			assert.dotEquals(suite, createSuite({ name: "my suite", mark: TestMark.skip }));
-			assert.dotEquals(noName, createSuite({ name: [], mark: TestMark.skip }));
+			assert.dotEquals(suite, createSuite({ name: "my suite", mark: TestMark.todo }));
+			assert.dotEquals(noName, createSuite({ name: [], mark: TestMark.todo }));
+			assert.dotEquals(skipped, createSuite({ name: "skipped suite", mark: TestMark.skip }));
 		});
 
 		it("recursively skips everything within a suite that has '.skip'", async () => {
@@ -1460,6 +1629,77 @@ export default describe(() => {
 			);
 		});
 
+		it("conditionally skips tests with a reason", async () => {
+			const ran: string[] = [];
+			const suite = describe_sut(() => {
+				it_sut.skipIf(true, "my reason")("skipIf true", () => { ran.push("skipIf true"); });
+				it_sut.skipIf(false)("skipIf false", () => { ran.push("skipIf false"); });
+				it_sut.runIf(false)("runIf false", () => { ran.push("runIf false"); });
+				it_sut.runIf(true, "my reason")("runIf true", () => { ran.push("runIf true"); });
+			});
+
+			const result = await suite.runAsync();
+
+			assert.equal(ran, [ "skipIf false", "runIf true" ]);
+			assert.dotEquals(result, createSuite({ tests: [
+				createSkip({ name: "skipIf true", mark: TestMark.skip, reason: "my reason" }),
+				createPass({ name: "skipIf false" }),
+				createSkip({ name: "runIf false", mark: TestMark.skip, reason: "runIf() condition was false" }),
+				createPass({ name: "runIf true" }),
+			]}));
+		});
+
+		it("conditionally skips suites, and their tests inherit the reason", async () => {
+			const suite = describe_sut(() => {
+				describe_sut.skipIf(true)("skipIf true", () => {
+					beforeEach_sut(PASS_FN);
+					it_sut("test", PASS_FN);
+					it_sut.skip("marked test", PASS_FN);
+				});
+				describe_sut.runIf(false, "my reason")("runIf false", () => {
+					it_sut("test", PASS_FN);
+				});
+				describe_sut.skipIf(false)("skipIf false", () => {
+					it_sut("test", PASS_FN);
+				});
+				describe_sut.runIf(false)("no body");
+			});
+
+			const result = await suite.runAsync();
+
+			const skipIfReason = "skipIf() condition was true";
+			const beforeEach = [ RunResult.skip({ name: [ "skipIf true", "beforeEach()" ], reason: skipIfReason }) ];
+			assert.dotEquals(result, createSuite({ tests: [
+				createSuite({ name: "skipIf true", mark: TestMark.skip, tests: [
+					createSkip({ name: [ "skipIf true", "test" ], reason: skipIfReason, beforeEach }),
+					createSkip({
+						name: [ "skipIf true", "marked test" ],
+						mark: TestMark.skip,
+						reason: skipIfReason,
+						beforeEach,
+					}),
+				]}),
+				createSuite({ name: "runIf false", mark: TestMark.skip, tests: [
+					createSkip({ name: [ "runIf false", "test" ], reason: "my reason" }),
+				]}),
+				createSuite({ name: "skipIf false", tests: [
+					createPass({ name: [ "skipIf false", "test" ] }),
+				]}),
+				createSuite({ name: "no body", mark: TestMark.skip }),
+			]}));
+		});
+
+		it("fails fast when skipIf() or runIf() condition isn't a boolean", () => {
+			assert.error(
+				() => it_sut.skipIf("true" as unknown as boolean),
+				"condition must be a boolean, but it was a string",
+			);
+			assert.error(
+				() => describe_sut.runIf(true, 42 as unknown as string),
+				"reason must be undefined or a string, but it was a number",
+			);
+		});
+
 		it("generates failure when a suite is marked 'only' but has no body", async () => {
 			const options = {
 				renderer: CUSTOM_RENDERER_PATH,
@@ -1726,40 +1966,1020 @@ export default describe(() => {
 	});
 
 
-	describe("notification", () => {
+	describe("filter", () => {
 
-		it("runs notify function when test completes", async () => {
+		it("only runs tests whose full names contain the filter string", async () => {
 			const suite = describe_sut(() => {
-				it_sut("my test", PASS_FN);
+				describe_sut("parent", () => {
+					it_sut("match me", PASS_FN);
+					it_sut("skip me", PASS_FN);
+				});
+				it_sut("match me", PASS_FN);
 			});
 
-			let testResult;
-			function onTestCaseResult(result: TestResult) {
-				testResult = result;
-			}
+			assert.dotEquals(await suite.runAsync({ filter: "parent » match" }),
+				createSuite({ tests: [
+					createSuite({ name: "parent", tests: [
+						createPass({ name: [ "parent", "match me" ] }),
+						createSkip({ name: [ "parent", "skip me" ] }),
+					]}),
+					createSkip({ name: "match me" }),
+				]}),
+			);
+		});
 
-			await suite.runAsync({ onTestCaseResult });
-			assert.dotEquals(testResult, createPass({ name: "my test" }));
+		it("supports regular expressions", async () => {
+			const suite = describe_sut(() => {
+				it_sut("test 1", PASS_FN);
+				it_sut("test 2", PASS_FN);
+				it_sut("test 10", PASS_FN);
+			});
+
+			assert.dotEquals(await suite.runAsync({ filter: /test \d$/ }),
+				createSuite({ tests: [
+					createPass({ name: "test 1" }),
+					createPass({ name: "test 2" }),
+					createSkip({ name: "test 10" }),
+				]}),
+			);
 		});
 
-		it("runs notify function when beforeAll() and afterAll() complete", async () => {
+		it("runs all tests in suites whose names match", async () => {
+			const suite = describe_sut(() => {
+				describe_sut("matching suite", () => {
+					it_sut("test 1", PASS_FN);
+					describe_sut(() => {
+						it_sut("test 2", PASS_FN);
+					});
+				});
+				describe_sut("other suite", () => {
+					it_sut("test 3", PASS_FN);
+				});
+			});
+
+			assert.dotEquals(await suite.runAsync({ filter: "matching" }),
+				createSuite({ tests: [
+					createSuite({ name: "matching suite", tests: [
+						createPass({ name: [ "matching suite", "test 1" ] }),
+						createSuite({ name: "matching suite", tests: [
+							createPass({ name: [ "matching suite", "test 2" ] }),
+						]}),
+					]}),
+					createSuite({ name: "other suite", tests: [
+						createSkip({ name: [ "other suite", "test 3" ] }),
+					]}),
+				]}),
+			);
+		});
+
+		it("doesn't run beforeAll() or afterAll() in suites with no matching tests", async () => {
+			const ran: string[] = [];
+			const suite = describe_sut(() => {
+				describe_sut("matching", () => {
+					beforeAll_sut(() => { ran.push("matching beforeAll"); });
+					afterAll_sut(() => { ran.push("matching afterAll"); });
+					it_sut("test", PASS_FN);
+				});
+				describe_sut("not matching", () => {
+					beforeAll_sut(() => { ran.push("not matching beforeAll"); });
+					afterAll_sut(() => { ran.push("not matching afterAll"); });
+					it_sut("test", PASS_FN);
+				});
+			});
+
+			await suite.runAsync({ filter: /^matching/ });
+			assert.equal(ran, [ "matching beforeAll", "matching afterAll" ]);
+		});
+
+		it("doesn't run beforeEach() or afterEach() for tests that don't match", async () => {
+			const ran: string[] = [];
+			const suite = describe_sut(() => {
+				beforeEach_sut(() => { ran.push("beforeEach"); });
+				afterEach_sut(() => { ran.push("afterEach"); });
+				it_sut("match", PASS_FN);
+				it_sut("other", PASS_FN);
+			});
+
+			await suite.runAsync({ filter: "match" });
+			assert.equal(ran, [ "beforeEach", "afterEach" ]);
+		});
+
+		it("combines with .only", async () => {
+			const suite = describe_sut(() => {
+				it_sut.only("match 1", PASS_FN);
+				it_sut("match 2", PASS_FN);
+				it_sut.only("other", PASS_FN);
+			});
+
+			assert.dotEquals(await suite.runAsync({ filter: "match" }),
+				createSuite({ tests: [
+					createPass({ name: "match 1", mark: TestMark.only }),
+					createSkip({ name: "match 2" }),
+					createSkip({ name: "other", mark: TestMark.only }),
+				]}),
+			);
+		});
+
+	});
+
+
+	describe("random order", () => {
+
+		const NAMES = [ "test 0", "test 1", "test 2", "test 3", "test 4", "test 5", "test 6", "test 7" ];
+
+		it("runs tests in an order determined by the seed, and records the seed", async () => {
+			const { suite, ran } = createShuffledSuite();
+
+			const result = await suite.runAsync({ order: "random", seed: 42 });
+			const firstOrder = ran.splice(0);
+			await suite.runAsync({ order: "random", seed: 42 });
+
+			assert.notEqual(firstOrder, NAMES, "should be shuffled");
+			assert.equal([ ...firstOrder ].sort(), NAMES, "should run every test");
+			assert.equal(ran, firstOrder, "should use same order for same seed");
+			assert.equal(result.tests.map(test => test.name[0]), firstOrder, "results should be in the order tests ran");
+			assert.equal(result.seed, 42, "should record seed");
+		});
+
+		it("chooses a seed when one isn't provided", async () => {
+			const { suite, ran } = createShuffledSuite();
+
+			const result = await suite.runAsync({ order: "random" });
+			const firstOrder = ran.splice(0);
+			await suite.runAsync({ order: "random", seed: result.seed });
+
+			assert.isDefined(result.seed, "should record seed");
+			assert.equal(ran, firstOrder, "seed should reproduce order");
+		});
+
+		it("runs tests in declared order by default", async () => {
+			const { suite, ran } = createShuffledSuite();
+
+			const result = await suite.runAsync({ seed: 42 });
+
+			assert.equal(ran, NAMES, "order");
+			assert.isUndefined(result.seed, "seed");
+		});
+
+		it("shuffles nested suites, but keeps before/after functions with their tests", async () => {
+			const ran: string[] = [];
+			const log = (name: string) => () => { ran.push(name); };
+			const suite = describe_sut(() => {
+				beforeAll_sut(log("beforeAll"));
+				afterAll_sut(log("afterAll"));
+				describe_sut("child", () => {
+					beforeEach_sut(log("beforeEach"));
+					afterEach_sut(log("afterEach"));
+					NAMES.forEach(name => it_sut(name, log(name)));
+				});
+				it_sut("sibling 1", log("sibling 1"));
+				it_sut("sibling 2", log("sibling 2"));
+			});
+
+			await suite.runAsync({ order: "random", seed: 42 });
+
+			assert.equal(ran[0], "beforeAll", "beforeAll should run first");
+			assert.equal(ran.at(-1), "afterAll", "afterAll should run last");
+			const childTests = ran.filter(name => NAMES.includes(name));
+			assert.notEqual(childTests, NAMES, "nested suite should be shuffled");
+			childTests.forEach(name => {
+				const index = ran.indexOf(name);
+				assert.equal(ran.slice(index - 1, index + 2), [ "beforeEach", name, "afterEach" ], name);
+			});
+		});
+
+		it("fails fast when order is invalid", async () => {
+			const { suite } = createShuffledSuite();
+
+			// @ts-expect-error testing invalid order at runtime
+			await assert.errorAsync(() => suite.runAsync({ order: "sideways" }), /Test order must be 'declared' or 'random'/);
+		});
+
+		function createShuffledSuite() {
+			const ran: string[] = [];
+			const suite = describe_sut(() => {
+				NAMES.forEach(name => it_sut(name, () => { ran.push(name); }));
+			});
+			return { suite, ran };
+		}
+
+	});
+
+
+	describe("cancellation", () => {
+
+		it("marks remaining tests as 'not run' when signal is aborted, but still runs afterAll()", async () => {
+			const controller = new AbortController();
 			const suite = describe_sut(() => {
-				beforeAll_sut(PASS_FN);
 				afterAll_sut(PASS_FN);
-				it_sut("my test", PASS_FN);
+				it_sut("test 1", () => controller.abort());
+				it_sut("test 2", PASS_FN);
+				describe_sut("child", () => {
+					it_sut("test 3", PASS_FN);
+				});
 			});
 
-			const testResults: TestCaseResult[] = [];
-			function onTestCaseResult(result: TestCaseResult) {
-				testResults.push(result);
-			}
+			const result = await suite.runAsync({ signal: controller.signal });
 
-			await suite.runAsync({ onTestCaseResult });
-			assert.equal(testResults, [
-				createPass({ name: "beforeAll()" }),
-				createPass({ name: "my test" }),
-				createPass({ name: "afterAll()" }),
-			]);
+			assert.dotEquals(result, createSuite({
+				cancelled: true,
+				afterAll: [ createPass({ name: "afterAll()" }) ],
+				tests: [
+					createPass({ name: "test 1" }),
+					createNotRun({ name: "test 2" }),
+					createSuite({ name: "child", cancelled: true, tests: [
+						createNotRun({ name: [ "child", "test 3" ] }),
+					]}),
+				],
+			}));
+		});
+
+		it("marks nested suites that were running when signal was aborted", async () => {
+			const controller = new AbortController();
+			const suite = describe_sut(() => {
+				describe_sut("child", () => {
+					it_sut("test 1", () => controller.abort());
+					it_sut("test 2", PASS_FN);
+				});
+			});
+
+			const result = await suite.runAsync({ signal: controller.signal });
+
+			assert.dotEquals(result, createSuite({ cancelled: true, tests: [
+				createSuite({ name: "child", cancelled: true, tests: [
+					createPass({ name: [ "child", "test 1" ] }),
+					createNotRun({ name: [ "child", "test 2" ] }),
+				]}),
+			]}));
+		});
+
+		it("doesn't mark results as cancelled when signal isn't aborted", async () => {
+			const controller = new AbortController();
+			const suite = describe_sut(() => {
+				it_sut("test", PASS_FN);
+			});
+
+			const result = await suite.runAsync({ signal: controller.signal });
+			assert.equal(result.cancelled, false);
+		});
+
+	});
+
+
+	describe("bail", () => {
+
+		it("marks remaining tests as 'not run' after the requested number of failures", async () => {
+			const suite = describe_sut(() => {
+				it_sut("test 1", FAIL_FN);
+				it_sut("test 2", PASS_FN);
+				it_sut("test 3", FAIL_FN);
+				it_sut("test 4", PASS_FN);
+				describe_sut("child", () => {
+					it_sut("test 5", PASS_FN);
+				});
+			});
+
+			const result = await suite.runAsync({ bail: 2 });
+
+			assert.dotEquals(result, createSuite({ tests: [
+				createFail({ name: "test 1", error: ERROR }),
+				createPass({ name: "test 2" }),
+				createFail({ name: "test 3", error: ERROR }),
+				createNotRun({ name: "test 4" }),
+				createSuite({ name: "child", tests: [
+					createNotRun({ name: [ "child", "test 5" ] }),
+				]}),
+			]}));
+			assert.equal(result.cancelled, false, "bailing out isn't the same as cancelling");
+		});
+
+		it("counts timeouts and failing before/after functions as failures", async () => {
+			const clock = await Clock.createNullAsync();
+			const suite = describe_sut(() => {
+				describe_sut("child", () => {
+					beforeAll_sut(FAIL_FN);
+					it_sut("test 1", PASS_FN);
+				});
+				it_sut("test 2", async () => await clock.waitAsync(DEFAULT_TIMEOUT + 1));
+				it_sut("test 3", PASS_FN);
+			});
+
+			const resultPromise = suite.runAsync({ bail: 2, clock });
+			await clock.tickUntilTimersExpireAsync();
+
+			assert.dotEquals(await resultPromise, createSuite({ tests: [
+				createSuite({
+					name: "child",
+					beforeAll: [ createFail({ name: [ "child", "beforeAll()" ], error: ERROR }) ],
+					tests: [ createSkip({ name: [ "child", "test 1" ] }) ],
+				}),
+				createTimeout({ name: "test 2", timeout: DEFAULT_TIMEOUT }),
+				createNotRun({ name: "test 3" }),
+			]}));
+		});
+
+		it("only runs afterAll() for suites that started before bailing out", async () => {
+			const suite = describe_sut(() => {
+				afterAll_sut(PASS_FN);
+				it_sut("test 1", FAIL_FN);
+				describe_sut("child", () => {
+					beforeAll_sut(PASS_FN);
+					afterAll_sut(PASS_FN);
+					it_sut("test 2", PASS_FN);
+				});
+			});
+
+			const result = await suite.runAsync({ bail: 1 });
+
+			assert.dotEquals(result, createSuite({
+				afterAll: [ createPass({ name: "afterAll()" }) ],
+				tests: [
+					createFail({ name: "test 1", error: ERROR }),
+					createSuite({
+						name: "child",
+						beforeAll: [ createNotRun({ name: [ "child", "beforeAll()" ] }) ],
+						afterAll: [ createNotRun({ name: [ "child", "afterAll()" ] }) ],
+						tests: [ createNotRun({ name: [ "child", "test 2" ] }) ],
+					}),
+				],
+			}));
+		});
+
+		it("still reports skipped and todo tests as skipped and todo", async () => {
+			const suite = describe_sut(() => {
+				it_sut("test 1", FAIL_FN);
+				it_sut.skip("test 2", PASS_FN);
+				it_sut("test 3");
+			});
+
+			const result = await suite.runAsync({ bail: 1 });
+
+			assert.dotEquals(result, createSuite({ tests: [
+				createFail({ name: "test 1", error: ERROR }),
+				createSkip({ name: "test 2", mark: TestMark.skip }),
+				createTodo({ name: "test 3", mark: TestMark.todo }),
+			]}));
+		});
+
+		it("notifies caller about tests that didn't run", async () => {
+			const suite = describe_sut(() => {
+				it_sut("test 1", FAIL_FN);
+				it_sut("test 2", PASS_FN);
+			});
+
+			const testResults: TestCaseResult[] = [];
+			await suite.runAsync({ bail: 1, onTestCaseResult: (result) => testResults.push(result) });
+
+			assert.equal(testResults, [
+				createFail({ name: "test 1", error: ERROR }),
+				createNotRun({ name: "test 2" }),
+			]);
+		});
+
+		it("fails fast when bail isn't a positive integer", async () => {
+			const suite = describe_sut(() => {});
+
+			await assert.errorAsync(() => suite.runAsync({ bail: 0 }), "Bail must be a positive integer, but it was 0");
+			await assert.errorAsync(() => suite.runAsync({ bail: 1.5 }), "Bail must be a positive integer, but it was 1.5");
+		});
+
+	});
+
+
+	describe("leak detection", () => {
+
+		let timers: ReturnType<typeof setInterval>[];
+
+		beforeEach(() => {
+			timers = [];
+		});
+
+		afterEach(() => {
+			timers.forEach(timer => clearInterval(timer));
+		});
+
+		function leak() {
+			timers.push(setInterval(() => {}, 10000));
+		}
+
+		it("doesn't check for leaks by default", async () => {
+			const suite = describe_sut(() => {
+				it_sut("test", leak);
+			});
+
+			assert.dotEquals(await suite.runAsync(), createSuite({ tests: [
+				createPass({ name: "test" }),
+			]}));
+		});
+
+		it("warns about tests that leak resources, including where the resource was created", async () => {
+			const suite = describe_sut(() => {
+				it_sut("leaks", leak);
+				it_sut("doesn't leak", PASS_FN);
+			});
+
+			const [ leaks, doesntLeak ] = (await suite.runAsync({ detectLeaks: "warn" })).allTests();
+
+			assert.equal(leaks!.status, TestStatus.pass, "leaky test should still pass");
+			assert.equal(leaks!.warnings.length, 1, "leaky test should have one warning");
+			assert.includes(leaks!.warnings[0], "Test leaked 1 active resource");
+			assert.includes(leaks!.warnings[0], "Timeout");
+			assert.includes(leaks!.warnings[0], "_test_suite_test.", "should include creation stack");
+			assert.equal(doesntLeak!.warnings, [], "non-leaky test shouldn't have warnings");
+		});
+
+		it("fails tests that leak resources", async () => {
+			const suite = describe_sut(() => {
+				it_sut("leaks", leak);
+			});
+
+			const [ leaks ] = (await suite.runAsync({ detectLeaks: "fail" })).allTests();
+
+			assert.equal(leaks!.status, TestStatus.fail);
+			assert.includes(leaks!.errorMessage, "Test leaked 1 active resource");
+		});
+
+		it("doesn't report resources that are cleaned up by afterEach()", async () => {
+			let timer: ReturnType<typeof setInterval> | undefined;
+			const suite = describe_sut(() => {
+				beforeEach_sut(() => {
+					timer = setInterval(() => {}, 10000);
+				});
+				afterEach_sut(() => {
+					clearInterval(timer);
+				});
+				it_sut("test", PASS_FN);
+			});
+
+			const [ test ] = (await suite.runAsync({ detectLeaks: "fail" })).allTests();
+			assert.equal(test!.status, TestStatus.pass);
+		});
+
+		it("doesn't report timers that have been cleared, expired, or unref'd", async () => {
+			const suite = describe_sut(() => {
+				it_sut("test", async () => {
+					clearTimeout(setTimeout(() => {}, 10000));
+					await new Promise(resolve => setTimeout(resolve, 0));
+					setInterval(() => {}, 10000).unref();
+				});
+			});
+
+			const [ test ] = (await suite.runAsync({ detectLeaks: "fail" })).allTests();
+			assert.equal(test!.status, TestStatus.pass);
+		});
+
+		it("doesn't check tests that fail", async () => {
+			const suite = describe_sut(() => {
+				it_sut("test", () => {
+					leak();
+					throw ERROR;
+				});
+			});
+
+			assert.dotEquals(await suite.runAsync({ detectLeaks: "warn" }), createSuite({ tests: [
+				createFail({ name: "test", error: ERROR }),
+			]}));
+		});
+
+		it("fails fast when leak detection mode is invalid", async () => {
+			const suite = describe_sut(() => {});
+
+			await assert.errorAsync(
+				// @ts-expect-error testing invalid mode at runtime
+				() => suite.runAsync({ detectLeaks: "ignore" }),
+				"Leak detection must be 'warn' or 'fail', but it was 'ignore'",
+			);
+		});
+
+	});
+
+
+	describe("fixtures", () => {
+
+		let calls: string[];
+
+		beforeEach(() => {
+			calls = [];
+		});
+
+		function recordingFixture(name: string) {
+			return async (testUtilities: unknown, use: (value: string) => Promise<void>) => {
+				calls.push(`set up ${name}`);
+				await use(`${name} value`);
+				calls.push(`tear down ${name}`);
+			};
+		}
+
+		it("sets up fixtures when tests use them, and tears them down in reverse order after afterEach()", async () => {
+			const it_fixtures = it_sut.extend<{ a: string, b: string }>({
+				a: recordingFixture("a"),
+				b: recordingFixture("b"),
+			});
+			const suite = describe_sut(() => {
+				afterEach_sut(() => {
+					calls.push("afterEach");
+				});
+				it_fixtures("test", async ({ a, b }) => {
+					calls.push(`test: ${await a}, ${await b}`);
+				});
+			});
+
+			const result = await suite.runAsync();
+
+			assert.equal(calls, [ "set up a", "set up b", "test: a value, b value", "afterEach", "tear down b", "tear down a" ]);
+			assert.dotEquals(result, createSuite({ tests: [
+				createPass({
+					name: "test",
+					afterEach: [ createPass({ name: "afterEach()" }) ],
+					fixtures: [
+						RunResult.pass({ name: [ "test", "fixture 'a'" ] }),
+						RunResult.pass({ name: [ "test", "fixture 'b'" ] }),
+					],
+				}),
+			]}));
+		});
+
+		it("only sets up the fixtures each test uses, once per test", async () => {
+			const received: unknown[] = [];
+			let count = 0;
+			const it_fixtures = it_sut.extend<{ used: number, unused: string }>({
+				used: async (testUtilities, use) => {
+					await use(++count);
+				},
+				unused: recordingFixture("unused"),
+			});
+			const suite = describe_sut(() => {
+				it_fixtures("test 1", async (testUtilities) => {
+					received.push(await testUtilities.used, await testUtilities.used);
+				});
+				it_fixtures("test 2", async ({ used }) => {
+					received.push(await used);
+				});
+				it_fixtures("test 3", () => {});
+			});
+
+			const result = await suite.runAsync();
+
+			assert.equal(received, [ 1, 1, 2 ]);
+			assert.equal(calls, [], "unused fixture shouldn't be set up");
+			assert.equal(result.allTests().map(test => test.fixtures.length), [ 1, 1, 0 ]);
+		});
+
+		it("provides config and previously-defined fixtures to fixtures", async () => {
+			let received;
+			const it_fixtures = it_sut
+				.extend<{ base: string }>({
+					base: async ({ getConfig }, use) => {
+						await use(getConfig<string>("myConfig"));
+					},
+				})
+				.extend<{ derived: string }>({
+					derived: async ({ base }, use) => {
+						await use(`derived from ${await base}`);
+					},
+				});
+			const suite = describe_sut(() => {
+				it_fixtures("test", async ({ derived }) => {
+					received = await derived;
+				});
+			});
+
+			const result = await suite.runAsync({ config: { myConfig: "my_config" } });
+
+			assert.equal(received, "derived from my_config");
+			assert.equal(result.allTests()[0]!.fixtures.map(fixture => fixture.name), [
+				[ "test", "fixture 'base'" ],
+				[ "test", "fixture 'derived'" ],
+			]);
+		});
+
+		it("tears down fixtures when the test fails", async () => {
+			const it_fixtures = it_sut.extend<{ a: string }>({ a: recordingFixture("a") });
+			const suite = describe_sut(() => {
+				it_fixtures("test", async ({ a }) => {
+					await a;
+					throw ERROR;
+				});
+			});
+
+			const result = await suite.runAsync();
+
+			assert.equal(calls, [ "set up a", "tear down a" ]);
+			assert.dotEquals(result, createSuite({ tests: [
+				createFail({
+					name: "test",
+					error: ERROR,
+					fixtures: [ RunResult.pass({ name: [ "test", "fixture 'a'" ] }) ],
+				}),
+			]}));
+		});
+
+		it("fails the test and the fixture when fixture setup fails", async () => {
+			const it_fixtures = it_sut.extend<{ a: string }>({
+				a: () => {
+					throw ERROR;
+				},
+			});
+			const suite = describe_sut(() => {
+				it_fixtures("test", async ({ a }) => {
+					await a;
+				});
+			});
+
+			assert.dotEquals(await suite.runAsync(), createSuite({ tests: [
+				createFail({
+					name: "test",
+					error: ERROR,
+					fixtures: [ RunResult.fail({ name: [ "test", "fixture 'a'" ], error: ERROR }) ],
+				}),
+			]}));
+		});
+
+		it("fails the test when fixture teardown fails", async () => {
+			const it_fixtures = it_sut.extend<{ a: string }>({
+				a: async (testUtilities, use) => {
+					await use("a value");
+					console.log("teardown output");
+					throw ERROR;
+				},
+			});
+			const suite = describe_sut(() => {
+				it_fixtures("test", async ({ a }) => {
+					await a;
+				});
+			});
+
+			const result = await suite.runAsync();
+
+			assert.dotEquals(result, createSuite({ tests: [
+				createPass({
+					name: "test",
+					fixtures: [
+						RunResult.fail({ name: [ "test", "fixture 'a'" ], error: ERROR, output: "teardown output\n" }),
+					],
+				}),
+			]}));
+			assert.equal(result.allTests()[0]!.status, TestStatus.fail);
+		});
+
+		it("fails when fixture doesn't call use()", async () => {
+			const it_fixtures = it_sut.extend<{ a: string }>({
+				a: () => {},
+			});
+			const suite = describe_sut(() => {
+				it_fixtures("test", async ({ a }) => {
+					await a;
+				});
+			});
+
+			const [ test ] = (await suite.runAsync()).allTests();
+
+			assert.equal(test!.errorMessage, "Fixture 'a' didn't call use()");
+			assert.equal(test!.fixtures[0]!.errorMessage, "Fixture 'a' didn't call use()");
+		});
+
+		it("supports .skip and .only", async () => {
+			const it_fixtures = it_sut.extend<{ a: string }>({ a: recordingFixture("a") });
+			const suite = describe_sut(() => {
+				it_fixtures.skip("skipped", async ({ a }) => {
+					await a;
+				});
+				it_fixtures.only("only", async ({ a }) => {
+					await a;
+				});
+				it_fixtures("not only", async ({ a }) => {
+					await a;
+				});
+			});
+
+			assert.dotEquals(await suite.runAsync(), createSuite({ tests: [
+				createSkip({ name: "skipped", mark: TestMark.skip }),
+				createPass({
+					name: "only",
+					mark: TestMark.only,
+					fixtures: [ RunResult.pass({ name: [ "only", "fixture 'a'" ] }) ],
+				}),
+				createSkip({ name: "not only" }),
+			]}));
+		});
+
+		it("supports .fails", async () => {
+			const it_fixtures = it_sut.extend<{ a: string }>({ a: recordingFixture("a") });
+			const suite = describe_sut(() => {
+				it_fixtures.fails("my test", async ({ a }) => {
+					throw new Error(await a);
+				});
+			});
+
+			assert.dotEquals(await suite.runAsync(), createSuite({ tests: [
+				createPass({
+					name: "my test",
+					expectedFailure: "a value",
+					fixtures: [ RunResult.pass({ name: [ "my test", "fixture 'a'" ] }) ],
+				}),
+			]}));
+		});
+
+	});
+
+
+	describe("test context", () => {
+
+		it("provides the test's name and filename to it(), beforeEach(), and afterEach()", async () => {
+			const received: unknown[] = [];
+			const suite = describe_sut("my suite", () => {
+				beforeEach_sut(({ name, filename }) => {
+					received.push([ "beforeEach", name, filename ]);
+				});
+				afterEach_sut(({ name, filename }) => {
+					received.push([ "afterEach", name, filename ]);
+				});
+				it_sut("my test", ({ name, filename }) => {
+					received.push([ "it", name, filename ]);
+				});
+			});
+			suite._setFilename("/my/filename.js");
+
+			await suite.runAsync();
+
+			assert.equal(received, [
+				[ "beforeEach", [ "my suite", "my test" ], "/my/filename.js" ],
+				[ "it", [ "my suite", "my test" ], "/my/filename.js" ],
+				[ "afterEach", [ "my suite", "my test" ], "/my/filename.js" ],
+			]);
+		});
+
+		it("provides the function's own name to beforeAll() and afterAll()", async () => {
+			const received: unknown[] = [];
+			const suite = describe_sut("my suite", () => {
+				beforeAll_sut(({ name }) => {
+					received.push(name);
+				});
+				afterAll_sut(({ name }) => {
+					received.push(name);
+				});
+				it_sut("my test", PASS_FN);
+			});
+
+			await suite.runAsync();
+
+			assert.equal(received, [ [ "my suite", "beforeAll()" ], [ "my suite", "afterAll()" ] ]);
+		});
+
+		it("aborts the signal when the test times out", async () => {
+			const clock = await Clock.createNullAsync();
+
+			let signal: AbortSignal | undefined;
+			const suite = describe_sut(() => {
+				it_sut("my test", async (testUtilities) => {
+					signal = testUtilities.signal;
+					await clock.waitAsync(DEFAULT_TIMEOUT + 1);
+				});
+			});
+
+			const actualPromise = suite.runAsync({ clock });
+			await clock.tickAsync(DEFAULT_TIMEOUT - 1);
+			assert.equal(signal?.aborted, false, "signal shouldn't be aborted while the test is running");
+			await clock.tickUntilTimersExpireAsync();
+			await actualPromise;
+
+			assert.equal(signal?.aborted, true, "signal should be aborted after the test times out");
+			assert.equal(signal?.reason.message, `Timed out after ${DEFAULT_TIMEOUT}ms`);
+		});
+
+		it("runs onTestFinished() functions in reverse order, after afterEach()", async () => {
+			const calls: string[] = [];
+			const suite = describe_sut(() => {
+				beforeEach_sut(({ onTestFinished }) => {
+					onTestFinished(() => { calls.push("finished from beforeEach"); });
+				});
+				afterEach_sut(() => {
+					calls.push("afterEach");
+				});
+				it_sut("my test", ({ onTestFinished }) => {
+					onTestFinished(() => { calls.push("finished 1"); });
+					onTestFinished(async () => { await Promise.resolve(); calls.push("finished 2"); });
+					throw ERROR;
+				});
+			});
+
+			const result = await suite.runAsync();
+
+			assert.equal(calls, [ "afterEach", "finished 2", "finished 1", "finished from beforeEach" ]);
+			assert.dotEquals(result, createSuite({ tests: [
+				createFail({
+					name: "my test",
+					error: ERROR,
+					beforeEach: [ createPass({ name: "beforeEach()" }) ],
+					afterEach: [
+						createPass({ name: "afterEach()" }),
+						createPass({ name: [ "my test", "onTestFinished() / onTestFailed()" ] }),
+					],
+				}),
+			]}));
+		});
+
+		it("only runs onTestFailed() functions when the test fails or times out", async () => {
+			const calls: string[] = [];
+			const suite = describe_sut(() => {
+				it_sut("pass", ({ onTestFailed }) => {
+					onTestFailed(() => { calls.push("pass"); });
+				});
+				it_sut("fail", ({ onTestFailed }) => {
+					onTestFailed(() => { calls.push("fail"); });
+					throw ERROR;
+				});
+			});
+
+			const result = await suite.runAsync();
+
+			assert.equal(calls, [ "fail" ]);
+			assert.equal(result.allTests()[0]!.afterEach, [], "tests shouldn't report callbacks that didn't run");
+		});
+
+		it("fails the test when an onTestFinished() function fails, but still runs the others", async () => {
+			const calls: string[] = [];
+			const suite = describe_sut(() => {
+				it_sut("my test", ({ onTestFinished }) => {
+					onTestFinished(() => { calls.push("first"); });
+					onTestFinished(FAIL_FN);
+				});
+			});
+
+			const result = await suite.runAsync();
+
+			assert.equal(calls, [ "first" ]);
+			assert.dotEquals(result, createSuite({ tests: [
+				createPass({
+					name: "my test",
+					afterEach: [ createFail({ name: [ "my test", "onTestFinished() / onTestFailed()" ], error: ERROR }) ],
+				}),
+			]}));
+			assert.equal(result.allTests()[0]!.status, TestStatus.fail, "status");
+		});
+
+		it("runs onTestFinished() functions registered in beforeAll() after beforeAll()", async () => {
+			const calls: string[] = [];
+			const suite = describe_sut(() => {
+				beforeAll_sut(({ onTestFinished }) => {
+					onTestFinished(() => { calls.push("finished"); });
+					calls.push("beforeAll");
+				});
+				it_sut("my test", () => {
+					calls.push("test");
+				});
+			});
+
+			const result = await suite.runAsync();
+
+			assert.equal(calls, [ "beforeAll", "finished", "test" ]);
+			assert.dotEquals(result.beforeAll[0], createPass({
+				name: "beforeAll()",
+				afterEach: [ createPass({ name: [ "beforeAll()", "onTestFinished() / onTestFailed()" ] }) ],
+			}));
+		});
+
+		it("skips the test when it calls skip()", async () => {
+			let afterSkip = false;
+			const suite = describe_sut(() => {
+				it_sut("with reason", ({ skip }) => {
+					skip("my reason");
+					afterSkip = true;
+				});
+				it_sut("without reason", ({ skip }) => {
+					skip();
+				});
+				it_sut("caught", ({ skip }) => {
+					try {
+						skip("caught reason");
+					}
+					catch {
+						// the test is still skipped
+					}
+				});
+			});
+
+			const result = await suite.runAsync();
+
+			assert.equal(afterSkip, false, "skip() should stop the test");
+			assert.dotEquals(result, createSuite({ tests: [
+				createSkip({ name: "with reason", reason: "my reason" }),
+				createSkip({ name: "without reason" }),
+				createSkip({ name: "caught", reason: "caught reason" }),
+			]}));
+		});
+
+		it("skips the test when beforeEach() calls skip()", async () => {
+			let testRan = false;
+			const suite = describe_sut(() => {
+				beforeEach_sut(({ skip }) => {
+					skip("my reason");
+				});
+				afterEach_sut(PASS_FN);
+				it_sut("my test", () => {
+					testRan = true;
+				});
+			});
+
+			const result = await suite.runAsync();
+
+			assert.equal(testRan, false, "test shouldn't run");
+			const test = result.allTests()[0]!;
+			assert.dotEquals(test, createSkip({
+				name: "my test",
+				beforeEach: [ createSkip({ name: "beforeEach()", reason: "my reason" }) ],
+				afterEach: [ createSkip({ name: "afterEach()" }) ],
+			}));
+			assert.equal(test.skipReason, "my reason", "skip reason");
+		});
+
+		it("skips the suite when beforeAll() calls skip()", async () => {
+			const suite = describe_sut(() => {
+				beforeAll_sut(({ skip }) => {
+					skip("my reason");
+				});
+				it_sut("my test", PASS_FN);
+			});
+
+			assert.dotEquals(await suite.runAsync(), createSuite({
+				beforeAll: [ createSkip({ name: "beforeAll()", reason: "my reason" }) ],
+				tests: [ createSkip({ name: "my test" }) ],
+			}));
+		});
+
+	});
+
+
+	describe("notification", () => {
+
+		it("runs notify function when test completes", async () => {
+			const suite = describe_sut(() => {
+				it_sut("my test", PASS_FN);
+			});
+
+			let testResult;
+			function onTestCaseResult(result: TestResult) {
+				testResult = result;
+			}
+
+			await suite.runAsync({ onTestCaseResult });
+			assert.dotEquals(testResult, createPass({ name: "my test" }));
+		});
+
+		it("runs notify function when beforeAll() and afterAll() complete", async () => {
+			const suite = describe_sut(() => {
+				beforeAll_sut(PASS_FN);
+				afterAll_sut(PASS_FN);
+				it_sut("my test", PASS_FN);
+			});
+
+			const testResults: TestCaseResult[] = [];
+			function onTestCaseResult(result: TestCaseResult) {
+				testResults.push(result);
+			}
+
+			await suite.runAsync({ onTestCaseResult });
+			assert.equal(testResults, [
+				createPass({ name: "beforeAll()" }),
+				createPass({ name: "my test" }),
+				createPass({ name: "afterAll()" }),
+			]);
+		});
+
+		it("runs start notification function before tests, beforeAll(), and afterAll() run", async () => {
+			const suite = describe_sut("my suite", () => {
+				beforeAll_sut(PASS_FN);
+				afterAll_sut(PASS_FN);
+				it_sut("my test", PASS_FN);
+			});
+
+			const starts: string[][] = [];
+			function onTestCaseStart(name: string[]) {
+				starts.push(name);
+			}
+
+			await suite.runAsync({ onTestCaseStart });
+			assert.equal(starts, [
+				[ "my suite", "beforeAll()" ],
+				[ "my suite", "my test" ],
+				[ "my suite", "afterAll()" ],
+			]);
+		});
+
+		it("doesn't notify caller when skipped or filtered-out tests start", async () => {
+			const suite = describe_sut(() => {
+				describe_sut.skip("skipped suite", () => {
+					beforeAll_sut(PASS_FN);
+					it_sut("skipped by suite", PASS_FN);
+				});
+				it_sut.skip("skipped test", PASS_FN);
+				it_sut("filtered out", PASS_FN);
+				it_sut("matches filter", PASS_FN);
+			});
+
+			const starts: string[][] = [];
+			await suite.runAsync({ onTestCaseStart: name => starts.push(name), filter: /skip|matches/ });
+			assert.equal(starts, [ [ "matches filter" ] ]);
 		});
 
 		it("runs notify function if module fails to require()", async () => {
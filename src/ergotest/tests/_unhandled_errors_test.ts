@@ -0,0 +1,64 @@
+// Copyright Titanium I.T. LLC. License granted under terms of "The MIT License."
+import { assert, describe, it } from "../../util/tests.js";
+import { reportUnhandledError, UnhandledErrorScope } from "./unhandled_errors.js";
+
+const ERROR = new Error("my error");
+
+export default describe(() => {
+
+	it("runs function and returns its value", async () => {
+		const scope = UnhandledErrorScope.create(() => true);
+		assert.equal(await scope.runAsync(() => Promise.resolve("my value")), "my value");
+	});
+
+	it("fails function when it causes an unhandled error while it's running", async () => {
+		const scope = UnhandledErrorScope.create(() => true);
+
+		await assert.errorAsync(
+			() => scope.runAsync(async () => {
+				await delayAsync();
+				assert.equal(reportUnhandledError(ERROR), true, "should be reported");
+				await new Promise(() => {});
+			}),
+			"my error",
+		);
+	});
+
+	it("reports unhandled errors that happen after the function is done", async () => {
+		const lateErrors: unknown[] = [];
+		const scope = UnhandledErrorScope.create(error => {
+			lateErrors.push(error);
+			return true;
+		});
+
+		let laterAsync: Promise<boolean> | undefined;
+		await scope.runAsync(() => {
+			laterAsync = delayAsync().then(() => reportUnhandledError(ERROR));
+			return Promise.resolve();
+		});
+
+		assert.equal(await laterAsync, true, "should be reported");
+		assert.equal(lateErrors, [ ERROR ]);
+	});
+
+	it("doesn't report errors that happen outside of a scope", () => {
+		assert.equal(reportUnhandledError(ERROR), false);
+	});
+
+	it("doesn't report late errors when the scope can't accept them", async () => {
+		const scope = UnhandledErrorScope.create(() => false);
+
+		let laterAsync: Promise<boolean> | undefined;
+		await scope.runAsync(() => {
+			laterAsync = delayAsync().then(() => reportUnhandledError(ERROR));
+			return Promise.resolve();
+		});
+
+		assert.equal(await laterAsync, false);
+	});
+
+});
+
+async function delayAsync() {
+	await new Promise(resolve => setTimeout(resolve, 0));
+}
@@ -6,6 +6,7 @@ import { FailureTestCase, TestCase } from "./test_case.js";
 import { BeforeAfter } from "./before_after.js";
 import { DescribeFn, DescribeOptions, ItFn, ItOptions, Milliseconds } from "./test_api.js";
 import { Test } from "./test.js";
+import { FixtureMap } from "./fixtures.js";
 
 export class ApiContext {
 	private readonly _context: TestSuiteBuilder[] = [];
@@ -15,6 +16,7 @@ export class ApiContext {
 		optionalOptions: DescribeOptions | DescribeFn | undefined,
 		optionalFn: DescribeFn | undefined,
 		mark: TestMarkValue,
+		skipReason?: string,
 	) {
 		const DescribeOptionsType = { timeout: Number };
 		ensure.signature(arguments, [
@@ -22,6 +24,7 @@ export class ApiContext {
 			[ undefined, DescribeOptionsType, Function ],
 			[ undefined, Function ],
 			String,
+			[ undefined, String ],
 		]);
 		const { name, options, fn } = decipherDescribeParameters(optionalName, optionalOptions, optionalFn);
 		const fullName = this.#fullName(name);
@@ -34,7 +37,7 @@ export class ApiContext {
 		return suite;
 
 		function runDescribeBlock(context: TestSuiteBuilder[], fullName: string[], mark: TestMarkValue, fn: DescribeFn) {
-			const builder = new TestSuiteBuilder(fullName, mark, options.timeout);
+			const builder = new TestSuiteBuilder(fullName, mark, options.timeout, skipReason);
 			context.push(builder);
 			try {
 				fn();
@@ -56,7 +59,8 @@ export class ApiContext {
 			else {
 				return TestSuite.create({
 					name,
-					mark: TestMark.skip,
+					mark: mark === TestMark.none ? TestMark.todo : mark,
+					skipReason,
 				});
 			}
 		}
@@ -66,13 +70,16 @@ export class ApiContext {
 		name: string,
 		optionalOptions: ItOptions | ItFn | undefined,
 		possibleFnAsync: ItFn | undefined,
-		mark: TestMarkValue
+		mark: TestMarkValue,
+		fixtures: FixtureMap = {},
+		skipReason?: string,
+		expectFailure = false,
 	) {
 		this.#ensureInsideDescribe("it");
 		const { options, fnAsync } = decipherItParameters(name, optionalOptions, possibleFnAsync);
 		if (name === "") name = "(unnamed)";
 
-		this.#top.it(this.#fullName(name), mark, options, fnAsync);
+		this.#top.it(this.#fullName(name), mark, options, fnAsync, fixtures, skipReason, expectFailure);
 	}
 
 	beforeAll(optionalOptions: ItOptions | ItFn, possibleFnAsync?: ItFn) {
@@ -122,16 +129,18 @@ class TestSuiteBuilder {
 	private readonly _name: string[];
 	private readonly _mark: TestMarkValue;
 	private readonly _timeout?: Milliseconds;
+	private readonly _skipReason?: string;
 	private readonly _tests: Test[] = [];
 	private readonly _beforeAll: BeforeAfter[] = [];
 	private readonly _afterAll: BeforeAfter[] = [];
 	private readonly _beforeEach: BeforeAfter[] = [];
 	private readonly _afterEach: BeforeAfter[] = [];
 
-	constructor(name: string[], mark: TestMarkValue, timeout?: Milliseconds) {
+	constructor(name: string[], mark: TestMarkValue, timeout?: Milliseconds, skipReason?: string) {
 		this._name = name;
 		this._mark = mark;
 		this._timeout = timeout;
+		this._skipReason = skipReason;
 	}
 
 	public get name() {
@@ -142,8 +151,16 @@ class TestSuiteBuilder {
 		this._tests.push(suite);
 	}
 
-	it(name: string[], mark: TestMarkValue, options: ItOptions, fnAsync?: ItFn) {
-		this._tests.push(TestCase.create({ name, mark, options, fnAsync }));
+	it(
+		name: string[],
+		mark: TestMarkValue,
+		options: ItOptions,
+		fnAsync: ItFn | undefined,
+		fixtures: FixtureMap,
+		skipReason: string | undefined,
+		expectFailure: boolean,
+	) {
+		this._tests.push(TestCase.create({ name, mark, options, fnAsync, fixtures, skipReason, expectFailure }));
 	}
 
 	beforeAll(parentName: string[], options: ItOptions, fnAsync: ItFn) {
@@ -176,6 +193,7 @@ class TestSuiteBuilder {
 			beforeEach: this._beforeEach,
 			afterEach: this._afterEach,
 			tests: this._tests,
+			skipReason: this._skipReason,
 		});
 	}
 
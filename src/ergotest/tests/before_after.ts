@@ -1,8 +1,9 @@
 // Copyright Titanium I.T. LLC. License granted under terms of "The MIT License."
 import { RunData, RunOptions } from "./test_suite.js";
-import { TestCaseResult } from "../results/test_result.js";
+import { RunResult, TestCaseResult, TestStatus } from "../results/test_result.js";
 import { Runnable } from "./runnable.js";
 import { ItFn, ItOptions } from "./test_api.js";
+import { TestContext } from "./test_context.js";
 
 export class BeforeAfter {
 
@@ -25,15 +26,29 @@ export class BeforeAfter {
 	}
 
 	async runBeforeAfterAllAsync(runOptions: RunOptions, runData: RunData) {
+		if (!runData.skipAll) runOptions.onTestCaseStart(this._runnable.name, runData.filename);
+
+		const context = TestContext.create(this._runnable.name);
+		const it = await this._runnable.runAsync(runOptions, runData, context);
+		const failed = it.status === TestStatus.fail || it.status === TestStatus.timeout;
+		const afterEach = await context.runFinishedCallbacksAsync(failed, runOptions, runData);
+
+		const result = TestCaseResult.create({ it, afterEach });
+		runOptions.onTestCaseResult(result);
+
+		return result;
+	}
+
+	notRunBeforeAfterAll(runOptions: RunOptions, runData: RunData) {
 		const result = TestCaseResult.create({
-			it: await this._runnable.runAsync(runOptions, runData),
+			it: RunResult.notRun({ name: this._runnable.name, filename: runData.filename }),
 		});
 		runOptions.onTestCaseResult(result);
 
 		return result;
 	}
 
-	async runBeforeAfterEachAsync(runOptions: RunOptions, runData: RunData) {
-		return await this._runnable.runAsync(runOptions, runData);
+	async runBeforeAfterEachAsync(runOptions: RunOptions, runData: RunData, context: TestContext) {
+		return await this._runnable.runAsync(runOptions, runData, context, false);
 	}
 }
\ No newline at end of file
@@ -0,0 +1,59 @@
+// Copyright Titanium I.T. LLC. License granted under terms of "The MIT License."
+import * as ensure from "../../util/ensure.js";
+import { TypeDescriptor } from "../../util/type.js";
+import { TestConfig } from "./test_suite.js";
+
+/**
+ * Describes the configuration data provided to tests. Each key is a config name and each value is a type descriptor,
+ * as used by `ensure.type()`: for example, `{ port: Number, host: [ undefined, String ] }`.
+ */
+export type ConfigSchema = Record<string, TypeDescriptor>;
+
+/**
+ * The TypeScript type of the configuration data described by a {@link ConfigSchema}.
+ */
+export type ConfigType<S> = { [K in keyof S]: DescriptorType<S[K]> };
+
+type DescriptorType<D> =
+	D extends undefined ? undefined :
+	D extends null ? null :
+	D extends number ? number :
+	D extends StringConstructor ? string :
+	D extends NumberConstructor ? number :
+	D extends BooleanConstructor ? boolean :
+	D extends ArrayConstructor ? unknown[] :
+	D extends ObjectConstructor ? Record<string, unknown> :
+	D extends readonly (infer E)[] ? DescriptorType<E> :
+	D extends abstract new (...args: never[]) => infer I ? I :
+	D extends object ? ConfigType<D> :
+	unknown;
+
+/**
+ * Internal use only. Check that test config matches its schema. Config that isn't in the schema is an error, so
+ * misspelled names are caught before the tests run.
+ * @param {TestConfig} config The test config.
+ * @param {ConfigSchema} [schema] The schema. If undefined, the config isn't checked.
+ */
+export function validateConfig(config: TestConfig, schema?: ConfigSchema) {
+	if (schema === undefined) return;
+
+	ensure.type(config, schema, "config");
+}
+
+/**
+ * Internal use only. Retrieve a test config value, checking it against the schema if one is provided.
+ * @param {TestConfig} config The test config.
+ * @param {string} name The name of the config value.
+ * @param {ConfigSchema} [schema] The schema.
+ * @returns {unknown} The config value.
+ */
+export function getConfigValue(config: TestConfig, name: string, schema?: ConfigSchema): unknown {
+	if (schema !== undefined) {
+		ensure.that(Object.hasOwn(schema, name), `Test config '${name}' isn't in the config schema`);
+		ensure.type(config[name], schema[name], `config.${name}`);
+		return config[name];
+	}
+
+	if (config[name] === undefined) throw new Error(`No test config found for name '${name}'`);
+	return config[name];
+}
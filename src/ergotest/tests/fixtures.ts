@@ -0,0 +1,178 @@
+// Copyright Titanium I.T. LLC. License granted under terms of "The MIT License."
+import * as ensure from "../../util/ensure.js";
+import { RunResult } from "../results/test_result.js";
+import { RunData, RunOptions } from "./test_suite.js";
+import { TestUtilities } from "./test_api.js";
+import { OutputCapture } from "../../infrastructure/output_capture.js";
+
+/**
+ * A function that provides a fixture to a test. It should set up the fixture, call `use()` with the fixture's value,
+ * and then tear down the fixture after `use()` resolves.
+ */
+export type FixtureFn<T, F extends object = object> = (
+	testUtilities: TestUtilities<F>,
+	use: (value: T) => Promise<void>,
+) => Promise<void> | void;
+
+/**
+ * The fixtures defined by `it.extend()`. Each key is the name of a fixture, and each value is the function that
+ * provides it. Fixture functions can use the fixtures defined by previous calls to `extend()`.
+ */
+export type FixtureDefinitions<F extends object, Base extends object = object> = {
+	[K in keyof F]: FixtureFn<F[K], Base>
+};
+
+/**
+ * The fixtures provided to a test. Each fixture is set up the first time it's accessed, so its value is a promise.
+ */
+export type FixtureValues<F extends object> = {
+	readonly [K in keyof F]: Promise<F[K]>
+};
+
+/** Internal use only. */
+export type FixtureMap = Record<string, FixtureFn<unknown>>;
+
+const RESERVED_NAMES = [ "getConfig", "name", "filename", "signal", "onTestFinished", "onTestFailed", "skip" ];
+
+interface ActiveFixture {
+	name: string,
+	value: Promise<unknown>,
+	done: Promise<void>,
+	release: () => void,
+}
+
+/**
+ * Internal use only. Combine fixtures defined by `it.extend()` with previously-defined fixtures.
+ * @param {FixtureMap} base The previously-defined fixtures.
+ * @param {object} additional The new fixtures.
+ * @returns {FixtureMap} The combined fixtures.
+ */
+export function extendFixtures(base: FixtureMap, additional: object): FixtureMap {
+	ensure.signature(arguments, [ Object, Object ]);
+
+	for (const [ name, fn ] of Object.entries(additional)) {
+		ensure.that(!RESERVED_NAMES.includes(name), `Fixture name '${name}' is reserved`);
+		ensure.that(!Object.hasOwn(base, name), `Fixture '${name}' is already defined`);
+		ensure.type(fn, Function, `fixture '${name}'`);
+	}
+	return { ...base, ...additional };
+}
+
+/**
+ * Internal use only. Sets up fixtures for a single test run, on demand, and tears them down afterwards.
+ */
+export class FixtureScope {
+
+	private readonly _fixtures: FixtureMap;
+	private readonly _active: ActiveFixture[] = [];
+
+	static create(fixtures: FixtureMap = {}): FixtureScope {
+		return new FixtureScope(fixtures);
+	}
+
+	/** Internal use only. (Use a factory method instead.) */
+	constructor(fixtures: FixtureMap) {
+		this._fixtures = fixtures;
+	}
+
+	/**
+	 * Add the fixtures to a test's utilities object. Each fixture is set up the first time it's accessed, and the
+	 * same value is returned for the rest of the test.
+	 * @param {TestUtilities} testUtilities The test utilities object.
+	 * @returns {TestUtilities} A copy of the test utilities object, with fixtures added.
+	 */
+	provideTo(testUtilities: TestUtilities): TestUtilities {
+		const result = { ...testUtilities };
+		for (const name of Object.keys(this._fixtures)) {
+			Object.defineProperty(result, name, {
+				enumerable: true,
+				get: () => this.#useAsync(name, result),
+			});
+		}
+		return result;
+	}
+
+	/**
+	 * Tear down the fixtures that were set up, in the reverse order of setup.
+	 * @param {string[]} testName The name of the test the fixtures were set up for.
+	 * @param {RunOptions} runOptions The options for this test run.
+	 * @param {RunData} runData The data for this test.
+	 * @returns {Promise<RunResult[]>} The result of each fixture, in the order they were set up.
+	 */
+	async teardownAsync(testName: string[], runOptions: RunOptions, runData: RunData): Promise<RunResult[]> {
+		const results = [];
+		for (const fixture of this._active.splice(0).reverse()) {
+			results.unshift(await this.#teardownFixtureAsync(fixture, testName, runOptions, runData));
+		}
+		return results;
+	}
+
+	#useAsync(name: string, testUtilities: TestUtilities): Promise<unknown> {
+		let fixture = this._active.find(active => active.name === name);
+		if (fixture === undefined) {
+			fixture = startFixture(name, this._fixtures[name]!, testUtilities);
+			this._active.push(fixture);
+		}
+		return fixture.value;
+	}
+
+	async #teardownFixtureAsync(
+		{ name, done, release }: ActiveFixture,
+		testName: string[],
+		runOptions: RunOptions,
+		runData: RunData,
+	): Promise<RunResult> {
+		const resultName = [ ...testName, `fixture '${name}'` ];
+		const filename = runData.filename;
+
+		const capture = OutputCapture.start();
+		try {
+			return await runOptions.clock.timeoutAsync(runData.timeout, async () => {
+				release();
+				try {
+					await done;
+					return RunResult.pass({ name: resultName, filename, output: capture.stop() });
+				}
+				catch (error) {
+					const output = capture.stop();
+					return RunResult.fail({ name: resultName, filename, error, renderError: runOptions.renderError, output });
+				}
+			}, async () => {
+				return await RunResult.timeout({ name: resultName, filename, timeout: runData.timeout, output: capture.stop() });
+			});
+		}
+		finally {
+			capture.stop();
+		}
+	}
+
+}
+
+function startFixture(name: string, fnAsync: FixtureFn<unknown>, testUtilities: TestUtilities): ActiveFixture {
+	let resolveValue!: (value: unknown) => void;
+	let rejectValue!: (error: unknown) => void;
+	const value = new Promise((resolve, reject) => {
+		resolveValue = resolve;
+		rejectValue = reject;
+	});
+	// The test might not wait for the fixture, but failures are reported in the fixture's result regardless
+	value.catch(() => {});
+
+	let release!: () => void;
+	const released = new Promise<void>(resolve => {
+		release = resolve;
+	});
+
+	let used = false;
+	const done = (async () => {
+		await fnAsync(testUtilities, async (fixtureValue) => {
+			used = true;
+			resolveValue(fixtureValue);
+			await released;
+		});
+		if (!used) throw new Error(`Fixture '${name}' didn't call use()`);
+	})();
+	done.catch(error => rejectValue(error));
+
+	return { name, value, done, release };
+}
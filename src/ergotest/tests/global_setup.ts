@@ -0,0 +1,125 @@
+// Copyright Titanium I.T. LLC. License granted under terms of "The MIT License."
+import { TestConfig } from "./test_suite.js";
+
+type SetupFn = () => Promise<TestConfig | void> | TestConfig | void;
+type TeardownFn = () => Promise<void> | void;
+
+interface SetupModule {
+	modulePath: string,
+	teardown?: TeardownFn,
+}
+
+/**
+ * Internal use only. Runs the global setup modules for a test run. Each module can export a `setup()` function,
+ * which runs before the tests, and a `teardown()` function, which runs after them.
+ */
+export class GlobalSetup {
+
+	private readonly _config: TestConfig;
+	private readonly _modules: SetupModule[];
+
+	/**
+	 * Import the global setup modules and run their `setup()` functions, in order. If one fails, the modules that
+	 * were already set up are torn down.
+	 * @param {string[]} [modulePaths=[]] The global setup modules. They must be absolute paths or modules that exist
+	 *   in `node_modules`.
+	 * @returns {Promise<GlobalSetup>} The completed setup.
+	 */
+	static async setupAsync(modulePaths: string[] = []): Promise<GlobalSetup> {
+		const setup = new GlobalSetup();
+		try {
+			for (const modulePath of modulePaths) {
+				await setup.#setupModuleAsync(modulePath);
+			}
+			return setup;
+		}
+		catch (err) {
+			await setup.teardownAsync().catch(() => {});
+			throw err;
+		}
+	}
+
+	/** Internal use only. (Use a factory method instead.) */
+	constructor() {
+		this._config = {};
+		this._modules = [];
+	}
+
+	/**
+	 * @returns {TestConfig} The configuration returned by the `setup()` functions, merged together.
+	 */
+	get config(): TestConfig {
+		return this._config;
+	}
+
+	/**
+	 * Run the `teardown()` functions in the reverse order of setup. All of them run, even if one fails.
+	 * @throws {Error} The first error thrown by a `teardown()` function.
+	 */
+	async teardownAsync(): Promise<void> {
+		const modules = this._modules.splice(0).reverse();
+
+		const errors = [];
+		for (const { modulePath, teardown } of modules) {
+			try {
+				await teardown?.();
+			}
+			catch (err) {
+				errors.push(new Error(`Global setup module's teardown() function failed: ${modulePath}`, { cause: err }));
+			}
+		}
+		if (errors.length > 0) throw errors[0];
+	}
+
+	async #setupModuleAsync(modulePath: string) {
+		const { setup, teardown } = await importSetupModuleAsync(modulePath);
+
+		let config;
+		try {
+			config = await setup?.();
+		}
+		catch (err) {
+			throw new Error(`Global setup module's setup() function failed: ${modulePath}`, { cause: err });
+		}
+		this._modules.push({ modulePath, teardown });
+
+		if (config !== undefined && (typeof config !== "object" || config === null || Array.isArray(config))) {
+			throw new Error(
+				`Global setup module's setup() function must return an object or undefined, but it returned ` +
+				`${describeType(config)}: ${modulePath}`
+			);
+		}
+		Object.assign(this._config, config);
+	}
+
+}
+
+async function importSetupModuleAsync(modulePath: string): Promise<{ setup?: SetupFn, teardown?: TeardownFn }> {
+	let module;
+	try {
+		module = await import(modulePath);
+	}
+	catch (err) {
+		if (typeof err !== "object" || (err as { code: string })?.code !== "ERR_MODULE_NOT_FOUND") throw err;
+		throw new Error(`Global setup module not found (did you forget to use an absolute path?): ${modulePath}`);
+	}
+
+	const { setup, teardown } = module;
+	if (setup === undefined && teardown === undefined) {
+		throw new Error(`Global setup module doesn't export a setup() or teardown() function: ${modulePath}`);
+	}
+	for (const [ name, fn ] of [ [ "setup", setup ], [ "teardown", teardown ] ]) {
+		if (fn !== undefined && typeof fn !== "function") {
+			throw new Error(
+				`Global setup module's '${name}' export must be a function, but it was a ${typeof fn}: ${modulePath}`
+			);
+		}
+	}
+	return { setup, teardown };
+}
+
+function describeType(value: unknown): string {
+	if (value === null) return "null";
+	if (Array.isArray(value)) return "an array";
+	return `a ${typeof value}`;
+}
@@ -0,0 +1,127 @@
+// Copyright Titanium I.T. LLC. License granted under terms of "The MIT License."
+import { createHook } from "node:async_hooks";
+import * as ensure from "../../util/ensure.js";
+import { Clock } from "../../infrastructure/clock.js";
+
+export type LeakDetectionMode = "warn" | "fail";
+
+// Only resources that can keep the process alive are tracked. Others, such as promises, are cleaned up automatically.
+const TRACKED_TYPES = [
+	"Timeout",
+	"TCPWRAP",
+	"TCPSERVERWRAP",
+	"PIPEWRAP",
+	"PIPESERVERWRAP",
+	"UDPWRAP",
+	"PROCESSWRAP",
+	"FSEVENTWRAP",
+	"STATWATCHER",
+	"SIGNALWRAP",
+];
+
+const STACK_TRACE_LIMIT = 50;
+
+/** Internal use only. An asynchronous resource that was created, but never cleaned up. */
+export interface Leak {
+	type: string;
+	stack: string;
+}
+
+interface TrackedResource {
+	type: string;
+	stack: string;
+	resource: { hasRef?: () => boolean };
+}
+
+/**
+ * Internal use only. Check that the leak detection mode is valid.
+ * @param {LeakDetectionMode} [mode] The leak detection mode.
+ */
+export function validateLeakDetection(mode?: LeakDetectionMode) {
+	ensure.that(
+		mode === undefined || mode === "warn" || mode === "fail",
+		`Leak detection must be 'warn' or 'fail', but it was '${mode}'`,
+	);
+}
+
+/**
+ * Internal use only. Keeps track of active asynchronous resources, such as timers, sockets, and servers, that are
+ * created while it's running. Resources that are still active when it stops have been leaked.
+ */
+export class LeakDetector {
+
+	private readonly _resources = new Map<number, TrackedResource>();
+	private readonly _hook;
+
+	/**
+	 * Start tracking resources.
+	 * @returns {LeakDetector} The detector.
+	 */
+	static start(): LeakDetector {
+		const detector = new LeakDetector();
+		detector._hook.enable();
+		return detector;
+	}
+
+	/** Internal use only. (Use a factory method instead.) */
+	constructor() {
+		const init = (asyncId: number, type: string, _triggerAsyncId: number, resource: object) => {
+			if (!TRACKED_TYPES.includes(type)) return;
+			this._resources.set(asyncId, { type, stack: captureStack(init), resource });
+		};
+
+		this._hook = createHook({
+			init,
+			destroy: (asyncId) => {
+				this._resources.delete(asyncId);
+			},
+		});
+	}
+
+	/**
+	 * Stop tracking resources. Waits for the event loop to turn first, so resources that were just cleaned up are
+	 * accounted for.
+	 * @param {Clock} clock The clock to use for waiting.
+	 * @returns {Promise<Leak[]>} The resources that are still active and keeping the process alive.
+	 */
+	async stopAsync(clock: Clock): Promise<Leak[]> {
+		// Node reports destroyed resources asynchronously. For closed sockets and servers, that takes two turns.
+		await clock.waitForEventLoopAsync();
+		await clock.waitForEventLoopAsync();
+		this._hook.disable();
+
+		return [ ...this._resources.values() ]
+			.filter(({ resource }) => resource.hasRef?.() ?? true)
+			.map(({ type, stack }) => ({ type, stack }));
+	}
+
+}
+
+/**
+ * Internal use only. Describe leaked resources.
+ * @param {Leak[]} leaks The leaked resources.
+ * @returns {string} The description.
+ */
+export function describeLeaks(leaks: Leak[]): string {
+	const resources = leaks.length === 1 ? "resource" : "resources";
+	const details = leaks.map(({ type, stack }) => `${type}\n${stack}`).join("\n\n");
+	return `Test leaked ${leaks.length} active ${resources}, which can prevent the test run from exiting:\n\n${details}`;
+}
+
+// Node's own stack frames aren't useful for finding the leak, so they're removed
+function captureStack(hookFn: (...args: never[]) => void): string {
+	const previousLimit = Error.stackTraceLimit;
+	Error.stackTraceLimit = STACK_TRACE_LIMIT;
+	try {
+		const holder: { stack?: string } = {};
+		Error.captureStackTrace(holder, hookFn);
+		return (holder.stack ?? "")
+			.split("\n")
+			.slice(1)
+			.filter(line => !/\(node:|at node:/.test(line))
+			.join("\n");
+	}
+	finally {
+		Error.stackTraceLimit = previousLimit;
+	}
+}
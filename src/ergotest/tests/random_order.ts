@@ -0,0 +1,74 @@
+// Copyright Titanium I.T. LLC. License granted under terms of "The MIT License."
+import * as ensure from "../../util/ensure.js";
+
+export type TestOrder = "declared" | "random";
+
+export type ShuffleFn = <T>(items: T[], key: string) => T[];
+
+const MODULUS = 2 ** 31 - 1;
+
+/**
+ * Internal use only. Check that the test order options are valid.
+ * @param {TestOrder} [order] The order to run tests in.
+ * @param {number} [seed] The seed for random order.
+ */
+export function validateOrder(order?: TestOrder, seed?: number) {
+	ensure.that(
+		order === undefined || order === "declared" || order === "random",
+		`Test order must be 'declared' or 'random', but it was '${order}'`,
+	);
+	ensure.that(seed === undefined || Number.isInteger(seed), `Seed must be an integer, but it was ${seed}`);
+}
+
+/**
+ * Internal use only. Choose a seed for random test order.
+ * @returns {number} The seed.
+ */
+export function generateSeed(): number {
+	return Math.floor(Math.random() * 2 ** 31);
+}
+
+/**
+ * Internal use only. Create a function that shuffles lists of tests. Each list is shuffled based on the seed and the
+ * list's key, so the same list is always shuffled the same way, regardless of which other lists have been shuffled.
+ * @param {number} [seed] The seed to use. If undefined, lists aren't shuffled.
+ * @returns {ShuffleFn} The shuffle function. It returns a shuffled copy of the list.
+ */
+export function createShuffleFn(seed?: number): ShuffleFn {
+	if (seed === undefined) return (items) => items;
+
+	return (items, key) => {
+		const random = createRandomFn(seed + hash(key));
+		const result = [ ...items ];
+		for (let i = result.length - 1; i > 0; i--) {
+			const j = Math.floor(random() * (i + 1));
+			[ result[i], result[j] ] = [ result[j]!, result[i]! ];
+		}
+		return result;
+	};
+}
+
+// Park-Miller "minimal standard" generator: simple, and good enough for shuffling tests
+function createRandomFn(seed: number): () => number {
+	let state = mod(seed, MODULUS - 1) + 1;
+	const next = () => {
+		state = (state * 48271) % MODULUS;
+		return (state - 1) / (MODULUS - 1);
+	};
+
+	// The first few values are correlated with the seed, so skip them
+	for (let i = 0; i < 10; i++) next();
+	return next;
+}
+
+function hash(key: string): number {
+	let result = 0;
+	for (let i = 0; i < key.length; i++) {
+		result = (result * 31 + key.charCodeAt(i)) % MODULUS;
+	}
+	return result;
+}
+
+function mod(dividend: number, divisor: number): number {
+	return ((dividend % divisor) + divisor) % divisor;
+}
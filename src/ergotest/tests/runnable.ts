@@ -1,22 +1,28 @@
 // Copyright Titanium I.T. LLC. License granted under terms of "The MIT License."
-import { RunResult } from "../results/test_result.js";
+import { renderErrorMessage, RunResult } from "../results/test_result.js";
 import { RunData, RunOptions } from "./test_suite.js";
-import { ItFn, ItOptions } from "./test_api.js";
+import { GetConfigFn, ItFn, ItOptions } from "./test_api.js";
+import { OutputCapture } from "../../infrastructure/output_capture.js";
+import { UnhandledErrorScope } from "./unhandled_errors.js";
+import { ConfigSchema, getConfigValue } from "./config_schema.js";
+import { TestContext } from "./test_context.js";
 
 export class Runnable {
 
 	private readonly _name: string[];
 	private readonly _options: ItOptions;
 	private readonly _fnAsync?: ItFn;
+	private readonly _expectFailure: boolean;
 
-	static create(name: string[], options: ItOptions, fnAsync?: ItFn) {
-		return new Runnable(name, options, fnAsync);
+	static create(name: string[], options: ItOptions, fnAsync?: ItFn, expectFailure = false) {
+		return new Runnable(name, options, fnAsync, expectFailure);
 	}
 
-	constructor(name: string[], options: ItOptions, fnAsync: ItFn | undefined) {
+	constructor(name: string[], options: ItOptions, fnAsync: ItFn | undefined, expectFailure: boolean) {
 		this._name = name;
 		this._options = options;
 		this._fnAsync = fnAsync;
+		this._expectFailure = expectFailure;
 	}
 
 	get name(): string[] {
@@ -34,44 +40,134 @@ export class Runnable {
 	async runAsync(
 		runOptions: RunOptions,
 		runData: RunData,
+		context: TestContext = TestContext.create(this._name),
+		waitForUnhandledErrors = true,
 	): Promise<RunResult> {
 		const fnAsync = this._fnAsync;
 		if (runData.skipAll || fnAsync === undefined) {
 			return RunResult.skip({
 				name: this._name,
-				filename: runData.filename
+				filename: runData.filename,
+				reason: runData.skipReason,
 			});
 		}
 
 		const timeout = this._options.timeout ?? runData.timeout;
+		const scope = UnhandledErrorScope.create(error => (
+			runOptions.onUnhandledError(this._name, runData.filename, error)
+		));
+		const capture = OutputCapture.start();
+		try {
+			return await scope.runAsync(async () => {
+				const result = await this.#runWithTimeoutAsync(fnAsync, timeout, capture, runOptions, runData, context);
+				// wait for the event loop to turn, so unhandled errors caused by the test are detected. This is done once
+				// per test case, not for beforeEach() and afterEach(), because it slows down large test suites.
+				if (waitForUnhandledErrors) await runOptions.clock.waitForEventLoopAsync();
+				return result;
+			});
+		}
+		catch (error) {
+			// the test, or something it started, caused an unhandled error or promise rejection
+			return this.#fail(error, capture, runOptions, runData);
+		}
+		finally {
+			capture.stop();
+		}
+	}
+
+	async #runWithTimeoutAsync(
+		fnAsync: ItFn,
+		timeout: number,
+		capture: OutputCapture,
+		runOptions: RunOptions,
+		runData: RunData,
+		context: TestContext,
+	): Promise<RunResult> {
+		const abortController = new AbortController();
+		let skipped: { reason?: string } | undefined;
+
+		const testUtilities = context.fixtures.provideTo({
+			getConfig: getConfig as GetConfigFn,
+			name: context.name,
+			filename: runData.filename,
+			signal: abortController.signal,
+			onTestFinished: fnAsync => context.onTestFinished(fnAsync),
+			onTestFailed: fnAsync => context.onTestFailed(fnAsync),
+			skip,
+		});
+
 		return await runOptions.clock.timeoutAsync(timeout, async () => {
 			try {
-				await fnAsync({ getConfig });
+				await fnAsync(testUtilities);
+				if (skipped !== undefined) return this.#skip(skipped.reason, capture, runData);
+				if (this._expectFailure) {
+					return RunResult.fail({
+						name: this._name,
+						filename: runData.filename,
+						error: "Test was expected to fail, but it passed",
+						renderError: runOptions.renderError,
+						output: capture.stop(),
+					});
+				}
 				return RunResult.pass({
 					name: this._name,
-					filename: runData.filename
+					filename: runData.filename,
+					output: capture.stop(),
 				});
 			}
 			catch (error) {
-				return RunResult.fail({
-					name: this._name,
-					filename: runData.filename,
-					error,
-					renderError: runOptions.renderError
-				});
+				// skip() throws an error to stop the test, but the test could catch it, so we check the flag instead
+				if (skipped !== undefined) return this.#skip(skipped.reason, capture, runData);
+				return this.#fail(error, capture, runOptions, runData);
 			}
 		}, async () => {
+			abortController.abort(new Error(`Timed out after ${timeout}ms`));
 			return await RunResult.timeout({
 				name: this._name,
 				filename: runData.filename,
-				timeout: runData.timeout
+				timeout: runData.timeout,
+				output: capture.stop(),
 			});
 		});
 
-		function getConfig<T>(name: string) {
-			if (runOptions.config[name] === undefined) throw new Error(`No test config found for name '${name}'`);
-			return runOptions.config[name] as T;
+		// When a schema is provided, getConfigValue() checks the value's type, so it matches the declared return type
+		function getConfig(name: string, schema?: ConfigSchema) {
+			return getConfigValue(runOptions.config, name, schema);
+		}
+
+		function skip(reason?: string): never {
+			skipped = { reason };
+			throw new Error(reason === undefined ? "Test was skipped" : `Test was skipped: ${reason}`);
+		}
+	}
+
+	// Tests defined with it.fails() pass when they fail
+	#fail(error: unknown, capture: OutputCapture, runOptions: RunOptions, runData: RunData) {
+		const output = capture.stop();
+		if (this._expectFailure) {
+			return RunResult.pass({
+				name: this._name,
+				filename: runData.filename,
+				output,
+				expectedFailure: renderErrorMessage(error),
+			});
 		}
+		return RunResult.fail({
+			name: this._name,
+			filename: runData.filename,
+			error,
+			renderError: runOptions.renderError,
+			output,
+		});
+	}
+
+	#skip(reason: string | undefined, capture: OutputCapture, runData: RunData) {
+		return RunResult.skip({
+			name: this._name,
+			filename: runData.filename,
+			reason,
+			output: capture.stop(),
+		});
 	}
 
 }
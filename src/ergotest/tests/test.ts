@@ -1,6 +1,6 @@
 // Copyright Titanium I.T. LLC. License granted under terms of "The MIT License."
 import { TestMarkValue, TestResult } from "../results/test_result.js";
-import { RunData, RunOptions } from "./test_suite.js";
+import { FilterFn, RunData, RunOptions } from "./test_suite.js";
 
 export interface Test {
 	_runAsyncInternal: (
@@ -9,4 +9,5 @@ export interface Test {
 	) => Promise<TestResult> | TestResult;
 	_isDotOnly: () => boolean,
 	_isSkipped: (mark: TestMarkValue) => boolean,
+	_matchesFilter: (filterFn: FilterFn) => boolean,
 }
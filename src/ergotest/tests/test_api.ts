@@ -1,8 +1,14 @@
 // Copyright Titanium I.T. LLC. License granted under terms of "The MIT License."
+import * as ensure from "../../util/ensure.js";
 import { TestCaseResult, TestMark } from "../results/test_result.js";
 import { Clock } from "../../infrastructure/clock.js";
-import { TestConfig } from "./test_suite.js";
+import { TestConfig, TestSuite } from "./test_suite.js";
 import { ApiContext } from "./api_context.js";
+import { TestOrder } from "./random_order.js";
+import { LeakDetectionMode } from "./leak_detector.js";
+import { ConfigSchema, ConfigType } from "./config_schema.js";
+import { extendFixtures, FixtureDefinitions, FixtureMap, FixtureValues } from "./fixtures.js";
+import { TestFinishedFn } from "./test_context.js";
 
 const context = new ApiContext();
 
@@ -10,8 +16,16 @@ const context = new ApiContext();
 export interface TestOptions {
 	timeout?: Milliseconds,
 	config?: TestConfig,
+	configSchema?: ConfigSchema,
+	filter?: string | RegExp,
+	order?: TestOrder,
+	seed?: number,
+	bail?: number,
+	detectLeaks?: LeakDetectionMode,
+	globalSetup?: string[],
 	onTestCaseResult?: (testCaseResult: TestCaseResult) => void,
 	renderer?: string,
+	signal?: AbortSignal,
 	clock?: Clock,
 }
 
@@ -28,9 +42,35 @@ export interface ItOptions {
 
 export type DescribeFn = () => void;
 
-export type ItFn = (testUtilities: {
-	getConfig: <T>(key: string) => T,
-}) => Promise<void> | void;
+export type ConditionalDescribe = (
+	optionalName?: string | DescribeOptions | DescribeFn,
+	optionalOptions?: DescribeOptions | DescribeFn,
+	fn?: DescribeFn,
+) => TestSuite;
+
+export type ConditionalIt<F extends object = object> = (
+	name: string,
+	optionalOptions?: ItOptions | ItFn<F>,
+	fnAsync?: ItFn<F>,
+) => void;
+
+export type ItFn<F extends object = object> = (testUtilities: TestUtilities<F>) => Promise<void> | void;
+
+export type TestUtilities<F extends object = object> = {
+	getConfig: GetConfigFn,
+	name: string[],
+	filename?: string,
+	signal: AbortSignal,
+	onTestFinished: (fnAsync: TestFinishedFn) => void,
+	onTestFailed: (fnAsync: TestFinishedFn) => void,
+	skip: (reason?: string) => never,
+} & FixtureValues<F>;
+
+export interface GetConfigFn {
+	<T>(key: string): T,
+	// The schema is constrained by the parameter, not the type parameter, to avoid excessively deep type inference
+	<S extends object, K extends keyof S & string>(key: K, schema: S & ConfigSchema): ConfigType<S>[K],
+}
 
 
 /**
@@ -68,13 +108,46 @@ describe.only = function(
 	return context.describe(optionalName, optionalOptions, fn, TestMark.only);
 };
 
+/**
+ * Returns a version of {@link describe} that skips the test suite when `condition` is true. The suite's tests are
+ * skipped with `reason`, which is included in their results.
+ * @param {boolean} condition Whether to skip the test suite.
+ * @param {string} [reason] Why the test suite is skipped. Defaults to "skipIf() condition was true".
+ * @returns {ConditionalDescribe} A function that works like {@link describe}.
+ */
+describe.skipIf = function skipIf(condition: boolean, reason?: string): ConditionalDescribe {
+	return conditionalDescribe(conditionalSkipReason(condition, reason, "skipIf() condition was true"));
+};
+
+/**
+ * Returns a version of {@link describe} that only runs the test suite when `condition` is true. Otherwise, the suite's
+ * tests are skipped with `reason`, which is included in their results.
+ * @param {boolean} condition Whether to run the test suite.
+ * @param {string} [reason] Why the test suite is skipped. Defaults to "runIf() condition was false".
+ * @returns {ConditionalDescribe} A function that works like {@link describe}.
+ */
+describe.runIf = function runIf(condition: boolean, reason?: string): ConditionalDescribe {
+	return conditionalDescribe(conditionalSkipReason(!condition, reason, "runIf() condition was false"));
+};
+
+function conditionalDescribe(skipReason: string | undefined): ConditionalDescribe {
+	const mark = skipReason === undefined ? TestMark.none : TestMark.skip;
+	return function describe(
+		optionalName?: string | DescribeOptions | DescribeFn,
+		optionalOptions?: DescribeOptions | DescribeFn,
+		fn?: DescribeFn,
+	) {
+		return context.describe(optionalName, optionalOptions, fn, mark, skipReason);
+	};
+}
+
 /**
  * Adds a test to the current test suite. Must be run inside of a {@link test} or {@link describe} function. Add
  * `.skip` to skip this test and `.only` to only run this test.
  * @param {string} name The name of the test.
  * @param {ItOptions} [optionalOptions] The test options. You can skip this parameter and pass {@link fnAsync} instead.
  * @param {function} [fnAsync] The body of the test. May be synchronous or asynchronous. If undefined, this test will be
- *   skipped.
+ *   marked "todo."
  */
 export function it(name: string, optionalOptions?: ItOptions | ItFn, fnAsync?: ItFn) {
 	context.it(name, optionalOptions, fnAsync, TestMark.none);
@@ -88,6 +161,112 @@ it.only = function it(name: string, optionalOptions?: ItOptions | ItFn, fnAsync?
 	context.it(name, optionalOptions, fnAsync, TestMark.only);
 };
 
+/**
+ * Adds a placeholder for a test that hasn't been written yet. It's reported as "todo," rather than skipped.
+ * @param {string} name The name of the test.
+ */
+it.todo = function todo(name: string) {
+	context.it(name, undefined, undefined, TestMark.todo);
+};
+
+/**
+ * Adds a test that's expected to fail. The test passes when it throws an exception, and fails when it doesn't. Use it
+ * to document a known bug, such as one in a dependency, so you find out when the bug is fixed.
+ * @param {string} name The name of the test.
+ * @param {ItOptions} [optionalOptions] The test options. You can skip this parameter and pass {@link fnAsync} instead.
+ * @param {function} [fnAsync] The body of the test. May be synchronous or asynchronous. If undefined, this test will be
+ *   marked "todo."
+ */
+it.fails = function fails(name: string, optionalOptions?: ItOptions | ItFn, fnAsync?: ItFn) {
+	context.it(name, optionalOptions, fnAsync, TestMark.none, {}, undefined, true);
+};
+
+/**
+ * Returns a version of {@link it} that skips the test when `condition` is true. The test is skipped with `reason`,
+ * which is included in its result.
+ * @param {boolean} condition Whether to skip the test.
+ * @param {string} [reason] Why the test is skipped. Defaults to "skipIf() condition was true".
+ * @returns {ConditionalIt} A function that works like {@link it}.
+ */
+it.skipIf = function skipIf(condition: boolean, reason?: string): ConditionalIt {
+	return conditionalIt(conditionalSkipReason(condition, reason, "skipIf() condition was true"), {});
+};
+
+/**
+ * Returns a version of {@link it} that only runs the test when `condition` is true. Otherwise, the test is skipped with
+ * `reason`, which is included in its result.
+ * @param {boolean} condition Whether to run the test.
+ * @param {string} [reason] Why the test is skipped. Defaults to "runIf() condition was false".
+ * @returns {ConditionalIt} A function that works like {@link it}.
+ */
+it.runIf = function runIf(condition: boolean, reason?: string): ConditionalIt {
+	return conditionalIt(conditionalSkipReason(!condition, reason, "runIf() condition was false"), {});
+};
+
+/**
+ * Creates a version of {@link it} that provides fixtures to its tests. Each fixture is set up the first time a test
+ * accesses it, and torn down after the test finishes, even if the test fails. Call `extend()` on the result to add
+ * more fixtures.
+ * @param {FixtureDefinitions} fixtures The fixtures. Each key is the name of a fixture, and each value is a function
+ *   that sets up the fixture, calls `use()` with its value, and tears it down after `use()` resolves.
+ * @returns {ExtendedIt} The new version of {@link it}.
+ */
+it.extend = function extend<F extends object>(fixtures: FixtureDefinitions<F>): ExtendedIt<F> {
+	return extendIt(extendFixtures({}, fixtures));
+};
+
+export interface ExtendedIt<F extends object> {
+	(name: string, optionalOptions?: ItOptions | ItFn<F>, fnAsync?: ItFn<F>): void,
+	skip: (name: string, optionalOptions?: ItOptions | ItFn<F>, fnAsync?: ItFn<F>) => void,
+	only: (name: string, optionalOptions?: ItOptions | ItFn<F>, fnAsync?: ItFn<F>) => void,
+	todo: (name: string) => void,
+	fails: (name: string, optionalOptions?: ItOptions | ItFn<F>, fnAsync?: ItFn<F>) => void,
+	skipIf: (condition: boolean, reason?: string) => ConditionalIt<F>,
+	runIf: (condition: boolean, reason?: string) => ConditionalIt<F>,
+	extend: <G extends object>(fixtures: FixtureDefinitions<G, F>) => ExtendedIt<F & G>,
+}
+
+function extendIt<F extends object>(fixtures: FixtureMap): ExtendedIt<F> {
+	const extended = function it(name: string, optionalOptions?: ItOptions | ItFn<F>, fnAsync?: ItFn<F>) {
+		context.it(name, optionalOptions as ItOptions | ItFn, fnAsync as ItFn, TestMark.none, fixtures);
+	};
+	extended.skip = function it(name: string, optionalOptions?: ItOptions | ItFn<F>, fnAsync?: ItFn<F>) {
+		context.it(name, optionalOptions as ItOptions | ItFn, fnAsync as ItFn, TestMark.skip, fixtures);
+	};
+	extended.only = function it(name: string, optionalOptions?: ItOptions | ItFn<F>, fnAsync?: ItFn<F>) {
+		context.it(name, optionalOptions as ItOptions | ItFn, fnAsync as ItFn, TestMark.only, fixtures);
+	};
+	extended.todo = function todo(name: string) {
+		context.it(name, undefined, undefined, TestMark.todo, fixtures);
+	};
+	extended.fails = function fails(name: string, optionalOptions?: ItOptions | ItFn<F>, fnAsync?: ItFn<F>) {
+		context.it(name, optionalOptions as ItOptions | ItFn, fnAsync as ItFn, TestMark.none, fixtures, undefined, true);
+	};
+	extended.skipIf = function skipIf(condition: boolean, reason?: string) {
+		return conditionalIt<F>(conditionalSkipReason(condition, reason, "skipIf() condition was true"), fixtures);
+	};
+	extended.runIf = function runIf(condition: boolean, reason?: string) {
+		return conditionalIt<F>(conditionalSkipReason(!condition, reason, "runIf() condition was false"), fixtures);
+	};
+	extended.extend = function extend<G extends object>(moreFixtures: FixtureDefinitions<G, F>) {
+		return extendIt<F & G>(extendFixtures(fixtures, moreFixtures));
+	};
+	return extended;
+}
+
+function conditionalIt<F extends object>(skipReason: string | undefined, fixtures: FixtureMap): ConditionalIt<F> {
+	const mark = skipReason === undefined ? TestMark.none : TestMark.skip;
+	return function it(name: string, optionalOptions?: ItOptions | ItFn<F>, fnAsync?: ItFn<F>) {
+		context.it(name, optionalOptions as ItOptions | ItFn, fnAsync as ItFn, mark, fixtures, skipReason);
+	};
+}
+
+// Returns the reason to skip, or undefined if the test or suite shouldn't be skipped
+function conditionalSkipReason(skip: boolean, reason: string | undefined, defaultReason: string) {
+	ensure.signature(arguments, [ Boolean, [ undefined, String ], String ], [ "condition", "reason" ]);
+	return skip ? reason ?? defaultReason : undefined;
+}
+
 /**
  * Adds a function to run before all the tests in the current test suite. Must be run inside of a {@link test} or
  * {@link describe} function.
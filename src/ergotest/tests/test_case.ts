@@ -1,11 +1,14 @@
 // Copyright Titanium I.T. LLC. License granted under terms of "The MIT License."
 import { RunResult, TestCaseResult, TestMark, TestMarkValue, TestStatus } from "../results/test_result.js";
 import * as ensure from "../../util/ensure.js";
-import { RunData, RunOptions } from "./test_suite.js";
+import { FilterFn, inheritedSkipReason, RunData, RunOptions } from "./test_suite.js";
 import { Runnable } from "./runnable.js";
 import { BeforeAfter } from "./before_after.js";
 import { Test } from "./test.js";
 import { ItFn, ItOptions } from "./test_api.js";
+import { describeLeaks, Leak, LeakDetector } from "./leak_detector.js";
+import { FixtureMap } from "./fixtures.js";
+import { TestContext } from "./test_context.js";
 
 export class TestCase implements Test {
 
@@ -13,33 +16,46 @@ export class TestCase implements Test {
 	private readonly _mark: TestMarkValue;
 	private readonly _fnAsync?: ItFn;
 	private readonly _runnable: Runnable;
+	private readonly _fixtures: FixtureMap;
+	private readonly _skipReason?: string;
 
 	static create({
 		name,
 		mark = TestMark.none,
 		options = {},
 		fnAsync = undefined,
+		fixtures = {},
+		skipReason = undefined,
+		expectFailure = false,
 	}: {
 		name: string[],
 		mark?: TestMarkValue,
 		options?: ItOptions,
 		fnAsync?: ItFn,
+		fixtures?: FixtureMap,
+		skipReason?: string,
+		expectFailure?: boolean,
 	}): TestCase {
-		return new TestCase(name, options, fnAsync, mark);
+		return new TestCase(name, options, fnAsync, mark, fixtures, skipReason, expectFailure);
 	}
 
 	constructor(
 		name: string[],
 		options: ItOptions,
 		fnAsync: ItFn | undefined,
-		mark: TestMarkValue
+		mark: TestMarkValue,
+		fixtures: FixtureMap = {},
+		skipReason?: string,
+		expectFailure = false,
 	) {
 		this._name = name;
 		this._fnAsync = fnAsync;
-		this._runnable = Runnable.create(name, options, fnAsync);
+		this._runnable = Runnable.create(name, options, fnAsync, expectFailure);
+		this._fixtures = fixtures;
+		this._skipReason = skipReason;
 
 		this._mark = mark;
-		if (fnAsync === undefined && mark === TestMark.none) this._mark = TestMark.skip;
+		if (fnAsync === undefined && mark === TestMark.none) this._mark = TestMark.todo;
 	}
 
 	/** @private */
@@ -53,23 +69,74 @@ export class TestCase implements Test {
 		return inheritedMark === TestMark.skip || this._fnAsync === undefined;
 	}
 
+	/** @private */
+	_matchesFilter(filterFn: FilterFn): boolean {
+		return filterFn(this._name);
+	}
+
 	/** @private */
 	async _runAsyncInternal(
 		runOptions: RunOptions,
 		parentData: RunData,
 	): Promise<TestCaseResult> {
-		const runData = this.#consolidateRunData(parentData);
+		const runData = this.#consolidateRunData(parentData, runOptions);
+		const isStopped = runOptions.bailSignal.aborted || (runOptions.signal?.aborted ?? false);
+		if (isStopped && !runData.skipAll) return this.#notRun(runOptions, runData);
+
+		// Tests that are skipped or filtered out don't run, so the watchdog shouldn't blame them
+		if (!runData.skipAll) runOptions.onTestCaseStart(this._name, runData.filename);
+
+		// Leaks are checked across beforeEach(), it(), afterEach(), and fixtures together, so resources that are created
+		// in beforeEach() and cleaned up in afterEach() aren't reported
+		const leakDetector = runOptions.detectLeaks === undefined ? undefined : LeakDetector.start();
+
+		const context = TestContext.create(this._name, this._fixtures);
+		const beforeEach = await this.#runBeforeAfterEachAsync(runData.beforeEach, true, runOptions, runData, context);
+		let it = await this.#runTestAsync(runData, runOptions, context);
+		const afterEach = await this.#runBeforeAfterEachAsync(runData.afterEach, false, runOptions, runData, context);
+		const failed = isFailure(TestCaseResult.create({ mark: this._mark, beforeEach, afterEach, it }));
+		afterEach.push(...await context.runFinishedCallbacksAsync(failed, runOptions, runData));
+		const fixtures = await context.fixtures.teardownAsync(this._name, runOptions, runData);
+
+		if (leakDetector !== undefined) {
+			const leaks = await leakDetector.stopAsync(runOptions.clock);
+			it = this.#checkLeaks(leaks, { beforeEach, afterEach, fixtures, it }, runOptions);
+		}
+
+		const result = TestCaseResult.create({ mark: this._mark, beforeEach, afterEach, fixtures, it });
+		runOptions.onTestCaseResult(result);
+		return result;
+	}
 
-		const beforeEach = await this.#runBeforeAfterEachAsync(runData.beforeEach, true, runOptions, runData);
-		const it = await this.#runTestAsync(runData, runOptions);
-		const afterEach = await this.#runBeforeAfterEachAsync(runData.afterEach, false, runOptions, runData);
+	// Only passing tests are checked, because failing tests often don't get a chance to clean up
+	#checkLeaks(
+		leaks: Leak[],
+		results: { beforeEach: RunResult[], afterEach: RunResult[], fixtures: RunResult[], it: RunResult },
+		runOptions: RunOptions,
+	) {
+		const it = results.it;
+		const passed = TestCaseResult.create({ mark: this._mark, ...results }).isPass();
+		if (leaks.length === 0 || !passed) return it;
+
+		const { name, filename, output } = it;
+		const description = describeLeaks(leaks);
+		if (runOptions.detectLeaks === "fail") {
+			return RunResult.fail({ name, filename, output, error: description, renderError: runOptions.renderError });
+		}
+		else {
+			const { expectedFailure } = it;
+			return RunResult.pass({ name, filename, output, warnings: [ ...it.warnings, description ], expectedFailure });
+		}
+	}
 
-		const result = TestCaseResult.create({ mark: this._mark, beforeEach, afterEach, it });
+	#notRun(runOptions: RunOptions, runData: RunData) {
+		const it = RunResult.notRun({ name: this._name, filename: runData.filename });
+		const result = TestCaseResult.create({ mark: this._mark, it });
 		runOptions.onTestCaseResult(result);
 		return result;
 	}
 
-	async #runTestAsync(runData: RunData, runOptions: RunOptions) {
+	async #runTestAsync(runData: RunData, runOptions: RunOptions, context: TestContext) {
 		if (this._fnAsync === undefined && this._mark === TestMark.only) {
 			return RunResult.fail({
 				name: this._name,
@@ -78,31 +145,38 @@ export class TestCase implements Test {
 				renderError: runOptions.renderError,
 			});
 		}
+		if (this._fnAsync === undefined) return RunResult.todo({ name: this._name, filename: runData.filename });
 
-		return await this._runnable.runAsync(runOptions, runData);
+		return await this._runnable.runAsync(runOptions, runData, context);
 	}
 
 	async #runBeforeAfterEachAsync(
 		beforeAfter: BeforeAfter[],
 		isBeforeEach: boolean,
 		runOptions: RunOptions,
-		runData: RunData
+		runData: RunData,
+		context: TestContext,
 	) {
 		const results = [];
 		for await (const test of beforeAfter) {
-			const result = await test.runBeforeAfterEachAsync(runOptions, runData);
+			const result = await test.runBeforeAfterEachAsync(runOptions, runData, context);
 			if (isBeforeEach && !isSuccess(result)) runData.skipAll = true;
 			results.push(result);
 		}
 		return results;
 	}
 
-	#consolidateRunData(parentData: RunData): RunData {
+	#consolidateRunData(parentData: RunData, runOptions: RunOptions): RunData {
+		const matchesFilter = parentData.matchesFilter || this._matchesFilter(runOptions.filter);
+		const mark = this._mark === TestMark.none ? parentData.mark : this._mark;
+
 		return {
 			filename: parentData.filename,
-			mark: this._mark === TestMark.none ? parentData.mark : this._mark,
+			mark,
 			timeout: parentData.timeout,
-			skipAll: parentData.skipAll || this._isSkipped(parentData.mark),
+			skipAll: parentData.skipAll || this._isSkipped(parentData.mark) || !matchesFilter,
+			skipReason: inheritedSkipReason(mark, this._skipReason, parentData),
+			matchesFilter,
 			beforeEach: parentData.beforeEach,
 			afterEach: parentData.afterEach,
 		};
@@ -112,8 +186,13 @@ export class TestCase implements Test {
 
 
 
+// A beforeEach() that calls skip() skips the rest of the test, so only passing counts as success
 function isSuccess(result: TestCaseResult | RunResult) {
-	return result.status === TestStatus.pass || result.status === TestStatus.skip;
+	return result.status === TestStatus.pass;
+}
+
+function isFailure(result: TestCaseResult) {
+	return result.status === TestStatus.fail || result.status === TestStatus.timeout;
 }
 
 
@@ -0,0 +1,104 @@
+// Copyright Titanium I.T. LLC. License granted under terms of "The MIT License."
+import { RunResult } from "../results/test_result.js";
+import { RunData, RunOptions } from "./test_suite.js";
+import { FixtureMap, FixtureScope } from "./fixtures.js";
+import { OutputCapture } from "../../infrastructure/output_capture.js";
+
+export type TestFinishedFn = () => Promise<void> | void;
+
+interface FinishedCallback {
+	fnAsync: TestFinishedFn,
+	onlyOnFailure: boolean,
+}
+
+/**
+ * Internal use only. The state shared by the functions that run for a single test: its beforeEach(), it(), and
+ * afterEach() functions. (Or, for beforeAll() and afterAll(), just that function.)
+ */
+export class TestContext {
+
+	private readonly _name: string[];
+	private readonly _fixtures: FixtureScope;
+	private readonly _callbacks: FinishedCallback[] = [];
+
+	static create(name: string[], fixtures: FixtureMap = {}): TestContext {
+		return new TestContext(name, FixtureScope.create(fixtures));
+	}
+
+	/** Internal use only. (Use a factory method instead.) */
+	constructor(name: string[], fixtures: FixtureScope) {
+		this._name = name;
+		this._fixtures = fixtures;
+	}
+
+	/**
+	 * @returns {string[]} The name of the test.
+	 */
+	get name(): string[] {
+		return this._name;
+	}
+
+	/**
+	 * @returns {FixtureScope} The fixtures available to the test.
+	 */
+	get fixtures(): FixtureScope {
+		return this._fixtures;
+	}
+
+	/**
+	 * Register a function to run after the test finishes.
+	 * @param {TestFinishedFn} fnAsync The function.
+	 */
+	onTestFinished(fnAsync: TestFinishedFn) {
+		this._callbacks.push({ fnAsync, onlyOnFailure: false });
+	}
+
+	/**
+	 * Register a function to run after the test finishes, but only if it failed or timed out.
+	 * @param {TestFinishedFn} fnAsync The function.
+	 */
+	onTestFailed(fnAsync: TestFinishedFn) {
+		this._callbacks.push({ fnAsync, onlyOnFailure: true });
+	}
+
+	/**
+	 * Run the functions registered with {@link onTestFinished} and {@link onTestFailed}, in the reverse order they
+	 * were registered. All of them run, even if one fails.
+	 * @param {boolean} testFailed Whether the test failed or timed out.
+	 * @param {RunOptions} runOptions The options for this test run.
+	 * @param {RunData} runData The data for this test.
+	 * @returns {Promise<RunResult[]>} The result of running the functions, or an empty array if there weren't any.
+	 */
+	async runFinishedCallbacksAsync(testFailed: boolean, runOptions: RunOptions, runData: RunData): Promise<RunResult[]> {
+		const callbacks = this._callbacks.splice(0).reverse().filter(callback => testFailed || !callback.onlyOnFailure);
+		if (callbacks.length === 0) return [];
+
+		const name = [ ...this._name, "onTestFinished() / onTestFailed()" ];
+		const filename = runData.filename;
+
+		const capture = OutputCapture.start();
+		try {
+			const result = await runOptions.clock.timeoutAsync(runData.timeout, async () => {
+				const errors = [];
+				for (const { fnAsync } of callbacks) {
+					try {
+						await fnAsync();
+					}
+					catch (error) {
+						errors.push(error);
+					}
+				}
+				const output = capture.stop();
+				if (errors.length === 0) return RunResult.pass({ name, filename, output });
+				else return RunResult.fail({ name, filename, error: errors[0], renderError: runOptions.renderError, output });
+			}, async () => {
+				return await RunResult.timeout({ name, filename, timeout: runData.timeout, output: capture.stop() });
+			});
+			return [ result ];
+		}
+		finally {
+			capture.stop();
+		}
+	}
+
+}
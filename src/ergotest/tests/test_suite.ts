@@ -3,6 +3,7 @@ import * as ensure from "../../util/ensure.js";
 import { Clock } from "../../infrastructure/clock.js";
 import {
 	RenderErrorFn,
+	RunResult,
 	TestCaseResult,
 	TestMark,
 	TestMarkValue,
@@ -13,6 +14,10 @@ import {
 import { BeforeAfter } from "./before_after.js";
 import { Test } from "./test.js";
 import { Milliseconds, TestOptions } from "./test_api.js";
+import { createShuffleFn, generateSeed, ShuffleFn, validateOrder } from "./random_order.js";
+import { LeakDetectionMode, validateLeakDetection } from "./leak_detector.js";
+import { GlobalSetup } from "./global_setup.js";
+import { validateConfig } from "./config_schema.js";
 
 const DEFAULT_TIMEOUT_IN_MS = 2000;
 
@@ -20,11 +25,29 @@ export interface TestConfig {
 	[name: string]: unknown,
 }
 
+export type FilterFn = (name: string[]) => boolean;
+
+/**
+ * Internal use only. Options the test runner's worker provides to {@link TestSuite.runAsync}, in addition to the
+ * public {@link TestOptions}.
+ */
+export interface InternalTestOptions extends TestOptions {
+	onTestCaseStart?: (name: string[], filename?: string) => void,
+	bailSignal?: AbortSignal,
+}
+
 export interface RunOptions {
 	clock: Clock,
+	filter: FilterFn,
+	shuffle: ShuffleFn,
 	onTestCaseResult: (testResult: TestCaseResult) => void,
+	onTestCaseStart: (name: string[], filename?: string) => void,
+	onUnhandledError: (name: string[], filename: string | undefined, error: unknown) => boolean,
 	config: TestConfig,
 	renderError?: RenderErrorFn,
+	signal?: AbortSignal,
+	bailSignal: AbortSignal,
+	detectLeaks?: LeakDetectionMode,
 }
 
 export interface RunData {
@@ -32,6 +55,8 @@ export interface RunData {
 	mark: TestMarkValue;
 	timeout: Milliseconds;
 	skipAll: boolean;
+	skipReason?: string;
+	matchesFilter: boolean;
 	beforeEach: BeforeAfter[];
 	afterEach: BeforeAfter[];
 }
@@ -51,6 +76,7 @@ export class TestSuite implements Test {
 	private _beforeEach: BeforeAfter[];
 	private _afterEach: BeforeAfter[];
 	private _timeout?: Milliseconds;
+	private _skipReason?: string;
 	private _filename?: string;
 
 	static get DEFAULT_TIMEOUT_IN_MS() {
@@ -66,6 +92,7 @@ export class TestSuite implements Test {
 		beforeEach = [],
 		afterEach = [],
 		tests = [],
+		skipReason = undefined,
 	}: {
 		name?: string[],
 		mark?: TestMarkValue,
@@ -75,8 +102,9 @@ export class TestSuite implements Test {
 		beforeEach?: BeforeAfter[],
 		afterEach?: BeforeAfter[],
 		tests?: Test[],
+		skipReason?: string,
 	}) {
-		return new TestSuite(name, mark, timeout, beforeAll, afterAll, beforeEach, afterEach, tests);
+		return new TestSuite(name, mark, timeout, beforeAll, afterAll, beforeEach, afterEach, tests, skipReason);
 	}
 
 	/** Internal use only. (Use {@link describe} or {@link TestSuite.fromModulesAsync} instead.) */
@@ -89,10 +117,12 @@ export class TestSuite implements Test {
 		beforeEach: BeforeAfter[],
 		afterEach: BeforeAfter[],
 		tests: Test[],
+		skipReason?: string,
 	) {
 		this._name = name;
 		this._mark = mark;
 		this._timeout = timeout;
+		this._skipReason = skipReason;
 		this._beforeAll = beforeAll;
 		this._afterAll = afterAll;
 		this._beforeEach = beforeEach;
@@ -106,42 +136,133 @@ export class TestSuite implements Test {
 	 * Run the tests in this suite.
 	 * @param {number} [timeout] Default timeout in milliseconds.
 	 * @param {object} [config={}] Configuration data to provide to tests.
+	 * @param {ConfigSchema} [configSchema] The types of the configuration data. If provided, `config` is checked
+	 *   against it before any tests run, and config that isn't in the schema is an error.
+	 * @param {string | RegExp} [filter] Only run tests whose names match. The test's full name, including the names of
+	 *   its parent suites, is joined with " » " and compared to the filter. Strings match if they're part of the name,
+	 *   and regular expressions match if they match any part of the name. When a suite's name matches, all of its
+	 *   tests run. Tests that don't match are skipped.
+	 * @param {"declared" | "random"} [order="declared"] The order to run tests in. When "random", the tests in each
+	 *   suite, including the test modules, are shuffled. beforeAll(), afterAll(), beforeEach(), and afterEach() still
+	 *   run before and after the tests they belong to.
+	 * @param {number} [seed] The seed to use for random order. Use the seed recorded in a previous result's
+	 *   {@link TestSuiteResult.seed} to run tests in the same order again. Defaults to a random seed.
+	 * @param {number} [bail] Stop running tests after this many tests have failed or timed out. Tests that don't run
+	 *   are reported with the "not run" status. Defaults to running all tests.
+	 * @param {"warn" | "fail"} [detectLeaks] Check each test for timers, sockets, servers, and other asynchronous
+	 *   resources that it created, but didn't clean up. Leaked resources can prevent the test run from exiting. When
+	 *   "warn", leaks are reported in the test's {@link TestResult.warnings}. When "fail", they cause the test to fail.
+	 *   Only tests that otherwise pass are checked. Defaults to not checking for leaks.
+	 * @param {string[]} [globalSetup] Paths to modules that export `setup()` and `teardown()` functions. The `setup()`
+	 *   functions run once, in order, before any tests run, and the `teardown()` functions run in reverse order after
+	 *   all the tests are done. If a `setup()` function returns an object, its properties are added to `config`. The
+	 *   paths must be absolute paths or modules that exist in `node_modules`.
 	 * @param {(result: TestResult) => ()} [onTestCaseResult] A function to call each time a test completes. The `result`
 	 *   parameter describes the result of the test—whether it passed, failed, etc.
+	 * @param {(name: string[], filename?: string) => ()} [onTestCaseStart] Internal use only.
+	 * @param {AbortSignal} [bailSignal] Internal use only.
 	 * @param {string} [renderer] Path to a module that exports a `renderError()` function with the signature `(name:
 	 *   string, error: unknown, mark: TestMarkValue, filename?: string) => unknown`. The path must be an absolute path
 	 *   or a module that exists in `node_modules`. The `renderError()` function will be called when a test fails and the
 	 *   return value will be placed into the test result as {@link TestResult.errorRender}.
+	 * @param {AbortSignal} [signal] Stops the test run when aborted. Tests that are already running will finish, but
+	 *   no more tests will start. They're reported with the "not run" status, and the result is marked as cancelled.
 	 * @param {Clock} [clock] Internal use only.
 	 * @returns {Promise<TestSuiteResult>} The results of the test suite.
 	 */
 	async runAsync({
 		timeout = DEFAULT_TIMEOUT_IN_MS,
 		config = {},
+		configSchema = undefined,
+		filter = undefined,
+		order = "declared",
+		seed = undefined,
+		bail = undefined,
+		detectLeaks = undefined,
+		globalSetup = undefined,
 		onTestCaseResult = () => {},
+		onTestCaseStart = () => {},
+		bailSignal = undefined,
 		renderer = undefined,
+		signal = undefined,
 		clock = Clock.create(),
-	}: TestOptions = {}): Promise<TestSuiteResult> {
+	}: InternalTestOptions = {}): Promise<TestSuiteResult> {
 		ensure.signature(arguments, [[ undefined, {
 			timeout: [ undefined, Number ],
 			config: [ undefined, Object ],
+			configSchema: [ undefined, Object ],
+			filter: [ undefined, String, RegExp ],
+			order: [ undefined, String ],
+			seed: [ undefined, Number ],
+			bail: [ undefined, Number ],
+			detectLeaks: [ undefined, String ],
+			globalSetup: [ undefined, Array ],
 			onTestCaseResult: [ undefined, Function ],
+			onTestCaseStart: [ undefined, Function ],
+			bailSignal: [ undefined, AbortSignal ],
 			renderer: [ undefined, String ],
+			signal: [ undefined, AbortSignal ],
 			clock: [ undefined, Clock ],
 		}]]);
+		validateOrder(order, seed);
+		validateBail(bail);
+		validateLeakDetection(detectLeaks);
+		validateConfig(config, configSchema);
+
+		if (order === "random") seed ??= generateSeed();
+		else seed = undefined;
+
+		const bailController = new AbortController();
+		if (bailSignal?.aborted) bailController.abort();
+		else bailSignal?.addEventListener("abort", () => bailController.abort());
+
+		const renderError = await importRendererAsync(renderer);
+		const setup = await GlobalSetup.setupAsync(globalSetup);
 
-		return await this._runAsyncInternal({
+		// Unhandled errors that happen after the test that caused them has finished are reported as separate failures
+		const lateFailures: TestCaseResult[] = [];
+		let isRunning = true;
+
+		const runOptions: RunOptions = {
 			clock,
-			config,
-			onTestCaseResult,
-			renderError: await importRendererAsync(renderer),
-		}, {
-			mark: TestMark.only,
-			timeout: this._timeout ?? timeout,
-			skipAll: false,
-			beforeEach: [],
-			afterEach: [],
-		});
+			config: { ...config, ...setup.config },
+			filter: createFilterFn(filter),
+			shuffle: createShuffleFn(seed),
+			onTestCaseResult: countFailures(bail, bailController, onTestCaseResult),
+			onTestCaseStart,
+			onUnhandledError: (name, filename, error) => {
+				if (!isRunning) return false;
+
+				const it = RunResult.fail({ name, filename, error, renderError: runOptions.renderError });
+				const result = TestCaseResult.create({ it });
+				lateFailures.push(result);
+				runOptions.onTestCaseResult(result);
+				return true;
+			},
+			renderError,
+			signal,
+			bailSignal: bailController.signal,
+			detectLeaks,
+		};
+
+		let result;
+		try {
+			result = await this._runAsyncInternal(runOptions, {
+				mark: TestMark.only,
+				timeout: this._timeout ?? timeout,
+				skipAll: false,
+				matchesFilter: filter === undefined,
+				beforeEach: [],
+				afterEach: [],
+			}, seed);
+		}
+		finally {
+			isRunning = false;
+			await setup.teardownAsync();
+		}
+
+		if (lateFailures.length === 0) return result;
+		else return TestSuiteResult.merge([ result, TestSuiteResult.create({ tests: lateFailures }) ]);
 	}
 
 	/** @private */
@@ -158,12 +279,21 @@ export class TestSuite implements Test {
 	}
 
 	/** @private */
-	async _runAsyncInternal(runOptions: RunOptions, parentData: RunData) {
-		const runData = this.#consolidateRunData(parentData);
+	_matchesFilter(filterFn: FilterFn): boolean {
+		return filterFn(this._name) || this._tests.some(test => test._matchesFilter(filterFn));
+	}
+
+	/** @private */
+	async _runAsyncInternal(runOptions: RunOptions, parentData: RunData, seed?: number) {
+		const runData = this.#consolidateRunData(parentData, runOptions);
 
-		const beforeAllResults = await this.#runBeforeAfterAllAsync(this._beforeAll, true, runOptions, runData);
+		// If the run bailed out or was cancelled before this suite started, its afterAll() doesn't run either.
+		// Otherwise, it does, so the suite can clean up after its beforeAll().
+		const isStopped = runOptions.bailSignal.aborted || (runOptions.signal?.aborted ?? false);
+		const notRun = isStopped && !runData.skipAll;
+		const beforeAllResults = await this.#runBeforeAfterAllAsync(this._beforeAll, true, notRun, runOptions, runData);
 		const testResults = await this.#runTestsAsync(runOptions, runData);
-		const afterAllResults = await this.#runBeforeAfterAllAsync(this._afterAll, false, runOptions, runData);
+		const afterAllResults = await this.#runBeforeAfterAllAsync(this._afterAll, false, notRun, runOptions, runData);
 
 		return TestSuiteResult.create({
 			name: this._name,
@@ -172,12 +302,15 @@ export class TestSuite implements Test {
 			tests: testResults,
 			beforeAll: beforeAllResults,
 			afterAll: afterAllResults,
+			cancelled: runOptions.signal?.aborted ?? false,
+			seed,
 		});
 	}
 
 	async #runTestsAsync(runOptions: RunOptions, runData: RunData) {
 		const testResults = [];
-		for await (const test of this._tests) {
+		const shuffleKey = [ runData.filename ?? "", ...this._name ].join(" » ");
+		for await (const test of runOptions.shuffle(this._tests, shuffleKey)) {
 			testResults.push(await test._runAsyncInternal(runOptions, runData));
 		}
 		return testResults;
@@ -186,20 +319,23 @@ export class TestSuite implements Test {
 	async #runBeforeAfterAllAsync(
 		beforeAfter: BeforeAfter[],
 		isBeforeAll: boolean,
+		notRun: boolean,
 		runOptions: RunOptions,
 		runData: RunData
 	) {
 		const results: TestCaseResult[] = [];
 
 		for await (const test of beforeAfter) {
-			const result = await test.runBeforeAfterAllAsync(runOptions, runData);
+			const result = notRun
+				? test.notRunBeforeAfterAll(runOptions, runData)
+				: await test.runBeforeAfterAllAsync(runOptions, runData);
 			if (isBeforeAll && !isSuccess(result)) runData.skipAll = true;
 			results.push(result);
 		}
 		return results;
 	}
 
-	#consolidateRunData(parentData: RunData): RunData {
+	#consolidateRunData(parentData: RunData, runOptions: RunOptions): RunData {
 		const beforeEach = [ ...parentData.beforeEach, ...this._beforeEach ];
 		const afterEach = [ ...this._afterEach, ...parentData.afterEach ];
 
@@ -207,11 +343,17 @@ export class TestSuite implements Test {
 		if (inheritedMark === TestMark.none) inheritedMark = parentData.mark;
 		if (inheritedMark === TestMark.only && this._hasDotOnlyChildren) inheritedMark = TestMark.skip;
 
+		// Suites with no matching tests are skipped entirely, so their beforeAll() and afterAll() don't run
+		const matchesFilter = parentData.matchesFilter || runOptions.filter(this._name);
+		const hasMatchingTests = matchesFilter || this._tests.some(test => test._matchesFilter(runOptions.filter));
+
 		return {
 			filename: this._filename ?? parentData.filename,
 			mark: inheritedMark,
 			timeout: this._timeout ?? parentData.timeout,
-			skipAll: parentData.skipAll || this._isSkipped(),
+			skipAll: parentData.skipAll || this._isSkipped() || !hasMatchingTests,
+			skipReason: inheritedSkipReason(inheritedMark, this._skipReason, parentData),
+			matchesFilter,
 			beforeEach,
 			afterEach,
 		};
@@ -219,8 +361,48 @@ export class TestSuite implements Test {
 }
 
 
+/** Internal use only. Conditional skip reasons are inherited, unless a test or suite is marked `.only`. */
+export function inheritedSkipReason(mark: TestMarkValue, skipReason: string | undefined, parentData: RunData) {
+	return mark === TestMark.skip ? skipReason ?? parentData.skipReason : undefined;
+}
+
+// A beforeAll() that calls skip() skips the rest of the suite, so skipping doesn't count as success
 function isSuccess(result: TestCaseResult) {
-	return result.status === TestStatus.pass || result.status === TestStatus.skip;
+	return result.status === TestStatus.pass || result.status === TestStatus.notRun;
+}
+
+function validateBail(bail: number | undefined) {
+	ensure.that(
+		bail === undefined || (Number.isInteger(bail) && bail >= 1),
+		`Bail must be a positive integer, but it was ${bail}`,
+	);
+}
+
+function countFailures(
+	bail: number | undefined,
+	bailController: AbortController,
+	onTestCaseResult: (testResult: TestCaseResult) => void,
+) {
+	if (bail === undefined) return onTestCaseResult;
+
+	let failures = 0;
+	return (result: TestCaseResult) => {
+		if (result.isFail() || result.isTimeout()) failures++;
+		if (failures >= bail) bailController.abort();
+		onTestCaseResult(result);
+	};
+}
+
+function createFilterFn(filter: string | RegExp | undefined): FilterFn {
+	if (filter === undefined) return () => true;
+
+	return (name) => {
+		// Unnamed suites, such as the top-level suite, don't match, or every test would run
+		if (name.length === 0) return false;
+
+		const fullName = name.join(" » ");
+		return typeof filter === "string" ? fullName.includes(filter) : fullName.search(filter) !== -1;
+	};
 }
 
 
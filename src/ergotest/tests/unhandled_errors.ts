@@ -0,0 +1,66 @@
+// Copyright Titanium I.T. LLC. License granted under terms of "The MIT License."
+import { AsyncLocalStorage } from "node:async_hooks";
+
+const storage = new AsyncLocalStorage<UnhandledErrorScope>();
+
+/**
+ * Internal use only. Keeps track of the test function that started each asynchronous operation, so unhandled errors
+ * and promise rejections can be attributed to the test that caused them.
+ */
+export class UnhandledErrorScope {
+
+	private readonly _onLateError: (error: unknown) => boolean;
+	private _failFn?: (error: unknown) => void;
+
+	/**
+	 * @param {(error: unknown) => boolean} onLateError Called when an unhandled error is caused by the test function
+	 *   after it's finished running. Should return false if the error couldn't be reported.
+	 * @returns {UnhandledErrorScope} The scope.
+	 */
+	static create(onLateError: (error: unknown) => boolean): UnhandledErrorScope {
+		return new UnhandledErrorScope(onLateError);
+	}
+
+	/** Internal use only. (Use a factory method instead.) */
+	constructor(onLateError: (error: unknown) => boolean) {
+		this._onLateError = onLateError;
+	}
+
+	/**
+	 * Run a function in this scope. If the function, or anything it starts, causes an unhandled error before the
+	 * function is done, the returned promise rejects with that error.
+	 * @param {() => Promise<T>} fnAsync The function to run.
+	 * @returns {Promise<T>} The function's return value.
+	 */
+	async runAsync<T>(fnAsync: () => Promise<T>): Promise<T> {
+		const unhandledError = new Promise<never>((_, reject) => {
+			this._failFn = reject;
+		});
+
+		try {
+			return await Promise.race([ storage.run(this, fnAsync), unhandledError ]);
+		}
+		finally {
+			this._failFn = undefined;
+		}
+	}
+
+	/** @private */
+	_report(error: unknown): boolean {
+		if (this._failFn === undefined) return this._onLateError(error);
+
+		this._failFn(error);
+		return true;
+	}
+
+}
+
+/**
+ * Internal use only. Report an unhandled error or promise rejection to the test that caused it. Call this from
+ * `uncaughtException` and `unhandledRejection` event handlers, so the asynchronous context is available.
+ * @param {unknown} error The error.
+ * @returns {boolean} True if the error was reported to a test, or false if the test that caused it couldn't be found.
+ */
+export function reportUnhandledError(error: unknown): boolean {
+	return storage.getStore()?._report(error) ?? false;
+}
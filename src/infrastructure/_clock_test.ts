@@ -43,6 +43,15 @@ export default describe(() => {
 			assert.atLeast(elapsedTime, 9);
 		});
 
+		it("waits for the event loop to turn", async () => {
+			const clock = Clock.create();
+			const events: string[] = [];
+
+			setImmediate(() => events.push("event loop"));
+			await clock.waitForEventLoopAsync();
+			assert.equal(events, [ "event loop" ]);
+		});
+
 	});
 
 
@@ -269,6 +278,15 @@ export default describe(() => {
 			assert.equal(wait, 10);
 		});
 
+		it("doesn't wait for the event loop", async () => {
+			const clock = await Clock.createNullAsync();
+			const events: string[] = [];
+
+			setImmediate(() => events.push("event loop"));
+			await clock.waitForEventLoopAsync();
+			assert.equal(events, []);
+		});
+
 		it("can repeat", async () => {
 			const clock = await Clock.createNullAsync();
 
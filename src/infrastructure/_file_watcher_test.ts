@@ -0,0 +1,112 @@
+// Copyright Titanium I.T. LLC. License granted under terms of "The MIT License."
+import { assert, beforeEach, describe, it } from "../util/tests.js";
+import { FileWatcher } from "./file_watcher.js";
+import fs from "node:fs/promises";
+import { EventEmitter } from "node:events";
+
+export default describe(() => {
+
+	let testDir: string;
+
+	beforeEach(async ({ getConfig }) => {
+		testDir = getConfig<string>("scratchDir");
+		await fs.rm(testDir, { recursive: true, force: true });
+		await fs.mkdir(`${testDir}/subdir`, { recursive: true });
+	});
+
+	describe("real behavior", () => {
+
+		it("notifies caller when files change, including files in subdirectories", async () => {
+			const watcher = FileWatcher.create();
+			const changes = new Set<string>();
+
+			const stopFn = watcher.watch(testDir, filename => changes.add(filename), () => {});
+			try {
+				await fs.writeFile(`${testDir}/subdir/my_file.js`, "changed");
+				await waitUntilAsync(() => changes.has(`${testDir}/subdir/my_file.js`));
+			}
+			finally {
+				stopFn();
+			}
+		});
+
+		it("stops watching", async () => {
+			const watcher = FileWatcher.create();
+			const changes: string[] = [];
+
+			const stopFn = watcher.watch(testDir, filename => changes.push(filename), () => {});
+			assert.equal(watcher.watchCount, 1, "before stopping");
+
+			stopFn();
+			await fs.writeFile(`${testDir}/my_file.js`, "changed");
+			await new Promise(resolve => setTimeout(resolve, 50));
+
+			assert.equal(watcher.watchCount, 0, "after stopping");
+			assert.equal(changes, [], "changes");
+		});
+
+		it("reports errors rather than throwing them", () => {
+			const fsWatcher = new EventEmitter();
+			const watcher = new FileWatcher({ watch: () => Object.assign(fsWatcher, { close() {} }) });
+			const errors: Error[] = [];
+
+			const stopFn = watcher.watch(testDir, () => {}, error => errors.push(error));
+			fsWatcher.emit("error", new Error("my error"));
+			stopFn();
+
+			assert.equal(errors, [ new Error("my error") ]);
+		});
+
+	});
+
+	describe("nulled instance", () => {
+
+		it("doesn't watch the file system", async () => {
+			const watcher = FileWatcher.createNull();
+			const changes: string[] = [];
+
+			const stopFn = watcher.watch(testDir, filename => changes.push(filename), () => {});
+			await fs.writeFile(`${testDir}/my_file.js`, "changed");
+			await new Promise(resolve => setTimeout(resolve, 50));
+			stopFn();
+
+			assert.equal(changes, []);
+		});
+
+		it("simulates changes to files in watched directories", () => {
+			const watcher = FileWatcher.createNull();
+			const changes: string[] = [];
+
+			const stopFn = watcher.watch("/watched", filename => changes.push(filename), () => {});
+			watcher.simulateChange("/watched/subdir/my_file.js");
+			watcher.simulateChange("/not_watched/my_file.js");
+			watcher.simulateChange("/watched_sibling/my_file.js");
+			stopFn();
+			watcher.simulateChange("/watched/after_stopping.js");
+
+			assert.equal(changes, [ "/watched/subdir/my_file.js" ]);
+		});
+
+		it("simulates errors", () => {
+			const watcher = FileWatcher.createNull();
+			const errors: Error[] = [];
+
+			const stopFn = watcher.watch("/watched", () => {}, error => errors.push(error));
+			watcher.simulateError(new Error("my error"));
+			stopFn();
+			watcher.simulateError(new Error("after stopping"));
+
+			assert.equal(errors, [ new Error("my error") ]);
+		});
+
+	});
+
+});
+
+async function waitUntilAsync(conditionFn: () => boolean) {
+	const start = Date.now();
+	while (!conditionFn()) {
+		if (Date.now() - start > 1000) throw new Error("Timed out waiting for file change");
+		await new Promise(resolve => setTimeout(resolve, 10));
+	}
+}
@@ -0,0 +1,78 @@
+// Copyright Titanium I.T. LLC. License granted under terms of "The MIT License."
+import { assert, describe, it } from "../util/tests.js";
+import { OutputCapture } from "./output_capture.js";
+import { Writable } from "node:stream";
+
+export default describe(() => {
+
+	it("captures stdout, stderr, and console output", () => {
+		const capture = OutputCapture.start();
+		try {
+			process.stdout.write("stdout\n");
+			process.stderr.write("stderr\n");
+			console.log("console.log");
+			console.error("console.error");
+		}
+		finally {
+			capture.stop();
+		}
+
+		assert.equal(capture.output, "stdout\nstderr\nconsole.log\nconsole.error\n");
+	});
+
+	it("converts binary output to strings", () => {
+		const { capture } = startCapture();
+		const stream = capture.stream;
+
+		stream.write(Buffer.from("binary"));
+		stream.write(new Uint8Array([ 0x68, 0x69 ]));
+
+		assert.equal(capture.sut.stop(), "binaryhi");
+	});
+
+	it("calls write callbacks", async () => {
+		const { capture } = startCapture();
+
+		await new Promise(resolve => capture.stream.write("a", resolve));
+		await new Promise(resolve => capture.stream.write("b", "utf8", resolve));
+
+		assert.equal(capture.sut.stop(), "ab");
+	});
+
+	it("doesn't write captured output to the original stream, and restores it when stopped", () => {
+		const { capture, written } = startCapture();
+
+		capture.stream.write("captured");
+		const output = capture.sut.stop();
+		capture.stream.write("not captured");
+
+		assert.equal(output, "captured");
+		assert.equal(written, [ "not captured" ]);
+	});
+
+	it("can be stopped more than once", () => {
+		const { capture, written } = startCapture();
+
+		capture.stream.write("captured");
+		capture.sut.stop();
+		capture.sut.stop();
+		capture.stream.write("not captured");
+
+		assert.equal(capture.sut.output, "captured");
+		assert.equal(written, [ "not captured" ]);
+	});
+
+});
+
+function startCapture() {
+	const written: string[] = [];
+	const stream = new Writable({
+		write(chunk, _encoding, callback) {
+			written.push(chunk.toString());
+			callback();
+		},
+	});
+	const sut = new OutputCapture([ stream ]);
+
+	return { capture: { sut, stream }, written };
+}
@@ -22,6 +22,7 @@ interface ClockGlobals {
 	clearTimeout: (handle: TimeoutHandle) => void,
 	setInterval: (fn: (...args: unknown[]) => void, milliseconds: number) => TimeoutHandle,
 	clearInterval: (handle: TimeoutHandle) => void,
+	setImmediate: (fn: () => void) => void,
 	tickAsync: (milliseconds: number) => void,
 	tickUntilTimersExpireAsync: () => void,
 }
@@ -42,6 +43,7 @@ export class Clock {
 			clearTimeout,
 			setInterval,
 			clearInterval,
+			setImmediate,
 			tickAsync() { throw new Error("Can't advance the clock because it isn't a null clock"); },
 			tickUntilTimersExpireAsync() { throw new Error("Can't advance the clock because it isn't a null clock"); }
 		});
@@ -85,6 +87,18 @@ export class Clock {
 		});
 	}
 
+	/**
+	 * Wait for the event loop to turn, so pending callbacks and events, such as unhandled promise rejections, are
+	 * processed. Equivalent to `setImmediate()`. Special note for nulled clocks: nulled clocks don't wait, so this method
+	 * returns right away.
+	 */
+	async waitForEventLoopAsync(): Promise<void> {
+		ensure.signature(arguments, []);
+		await new Promise<void>((resolve) => {
+			this._globals.setImmediate(resolve);
+		});
+	}
+
 	/**
 	 * Run a function approximately every N milliseconds. Equivalent to `setInterval()`, which is not guaranteed to be
 	 * exact. Special note for nulled clocks: time doesn't pass automatically for nulled clocks, so this method won't
@@ -246,6 +260,10 @@ async function nullGlobalsAsync({
 		clearInterval(handle: TimeoutHandle): void {
 			return fake.clearInterval(handle as number & NodeTimer);
 		},
+
+		setImmediate(fn: () => void): void {
+			fn();
+		},
 	};
 
 }
@@ -0,0 +1,123 @@
+// Copyright Titanium I.T. LLC. License granted under terms of "The MIT License."
+import * as ensure from "../util/ensure.js";
+import fs from "node:fs";
+import path from "node:path";
+
+type ChangeFn = (filename: string) => void;
+type ErrorFn = (error: Error) => void;
+
+interface Listener {
+	directory: string,
+	onChange: ChangeFn,
+	onError: ErrorFn,
+}
+
+/** Watches directories for changes to the files they contain. */
+export class FileWatcher {
+
+	/**
+	 * Factory method. Watches the real file system.
+	 * @returns {FileWatcher} the file watcher
+	 */
+	static create(): FileWatcher {
+		ensure.signature(arguments, []);
+
+		return new FileWatcher(fs);
+	}
+
+	/**
+	 * Factory method. Creates a file watcher that doesn't watch the file system. Use {@link simulateChange} to
+	 * simulate changes.
+	 * @returns {FileWatcher} the simulated file watcher
+	 */
+	static createNull(): FileWatcher {
+		ensure.signature(arguments, []);
+
+		return new FileWatcher(new FsStub());
+	}
+
+	private readonly _fs: WatchFs;
+	private readonly _listeners = new Set<Listener>();
+
+	/** Only for use by tests. (Use a factory method instead.) */
+	constructor(watchFs: WatchFs) {
+		this._fs = watchFs;
+	}
+
+	/**
+	 * @returns {number} the number of directories being watched
+	 */
+	get watchCount(): number {
+		return this._listeners.size;
+	}
+
+	/**
+	 * Watch a directory, and all of its subdirectories, for changes.
+	 * @param {string} directory The directory to watch.
+	 * @param {(filename: string) => void} onChange The function to call when a file changes. It's called with the
+	 *   absolute path of the file.
+	 * @param {(error: Error) => void} onError The function to call when the directory can't be watched, such as when
+	 *   it's deleted or the operating system runs out of watches. Changes might not be reported after an error.
+	 * @returns {() => void} A function that stops watching the directory.
+	 */
+	watch(directory: string, onChange: ChangeFn, onError: ErrorFn): () => void {
+		ensure.signature(arguments, [ String, Function, Function ]);
+
+		directory = path.resolve(directory);
+		const watcher = this._fs.watch(directory, { recursive: true }, (_event, filename) => {
+			if (filename !== null) onChange(path.resolve(directory, filename));
+		});
+		// Without a listener, errors are thrown, which crashes the process
+		watcher.on("error", onError);
+
+		const listener = { directory, onChange, onError };
+		this._listeners.add(listener);
+
+		return () => {
+			watcher.close();
+			this._listeners.delete(listener);
+		};
+	}
+
+	/**
+	 * Simulate a file changing. Every watch that includes the file is notified.
+	 * @param {string} filename The absolute path of the file.
+	 */
+	simulateChange(filename: string): void {
+		ensure.signature(arguments, [ String ]);
+
+		this._listeners.forEach(({ directory, onChange }) => {
+			if (filename.startsWith(directory + path.sep)) onChange(filename);
+		});
+	}
+
+	/**
+	 * Simulate an error watching the file system. Every watch is notified.
+	 * @param {Error} error The error.
+	 */
+	simulateError(error: Error): void {
+		ensure.signature(arguments, [ Error ]);
+
+		this._listeners.forEach(({ onError }) => onError(error));
+	}
+
+}
+
+interface WatchFs {
+	watch(
+		directory: string,
+		options: { recursive: boolean },
+		listener: (event: string, filename: string | null) => void,
+	): { close(): void, on(event: "error", listener: ErrorFn): unknown },
+}
+
+class FsStub implements WatchFs {
+
+	watch() {
+		return {
+			close() {},
+			on() {},
+		};
+	}
+
+}
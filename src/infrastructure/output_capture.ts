@@ -0,0 +1,76 @@
+// Copyright Titanium I.T. LLC. License granted under terms of "The MIT License."
+import * as ensure from "../util/ensure.js";
+import { Writable } from "node:stream";
+
+type WriteCallback = (error?: Error | null) => void;
+type Encoding = Parameters<Buffer["toString"]>[0];
+
+/**
+ * Captures everything written to stdout and stderr, including console output, until stopped. The captured output
+ * isn't written to the original streams.
+ */
+export class OutputCapture {
+
+	/**
+	 * Start capturing output written to `process.stdout` and `process.stderr`.
+	 * @returns {OutputCapture} The capture. Call {@link stop} to stop capturing.
+	 */
+	static start(): OutputCapture {
+		ensure.signature(arguments, []);
+
+		return new OutputCapture([ process.stdout, process.stderr ]);
+	}
+
+	private readonly _restoreFns: (() => void)[];
+	private _output = "";
+	private _isStopped = false;
+
+	/** Internal use only. (Use a factory method instead.) */
+	constructor(streams: Writable[]) {
+		this._restoreFns = streams.map(stream => this.#intercept(stream));
+	}
+
+	/**
+	 * @returns {string} The output captured so far.
+	 */
+	get output(): string {
+		return this._output;
+	}
+
+	/**
+	 * Stop capturing output and restore the original streams. It's safe to call this method more than once.
+	 * @returns {string} The output that was captured.
+	 */
+	stop(): string {
+		if (!this._isStopped) {
+			this._isStopped = true;
+			this._restoreFns.forEach(restoreFn => restoreFn());
+		}
+		return this._output;
+	}
+
+	#intercept(stream: Writable): () => void {
+		const hadOwnWrite = Object.hasOwn(stream, "write");
+		const originalWrite = stream.write;
+
+		const captureWrite = (
+			chunk: string | Uint8Array,
+			encodingOrCallback?: Encoding | WriteCallback,
+			callback?: WriteCallback,
+		) => {
+			const encoding = typeof encodingOrCallback === "string" ? encodingOrCallback : undefined;
+			this._output += typeof chunk === "string" ? chunk : Buffer.from(chunk).toString(encoding);
+
+			const done = typeof encodingOrCallback === "function" ? encodingOrCallback : callback;
+			if (done !== undefined) process.nextTick(done);
+			return true;
+		};
+		(stream as { write: unknown }).write = captureWrite;
+
+		return () => {
+			if (hadOwnWrite) stream.write = originalWrite;
+			else delete (stream as { write?: unknown }).write;
+		};
+	}
+
+}
@@ -9,6 +9,8 @@ export function createSuite({
 	afterAll = undefined,
 	filename = undefined,
 	mark = undefined,
+	cancelled = undefined,
+	seed = undefined,
 }: {
 	name?: string | string[],
 	tests?: TestResult[],
@@ -16,30 +18,41 @@ export function createSuite({
 	afterAll?: TestCaseResult[],
 	filename?: string,
 	mark?: TestMarkValue,
+	cancelled?: boolean,
+	seed?: number,
 } = {}) {
 	if (!Array.isArray(name)) name = [ name ];
-	return TestSuiteResult.create({ name, tests, beforeAll, afterAll, filename, mark });
+	return TestSuiteResult.create({ name, tests, beforeAll, afterAll, filename, mark, cancelled, seed });
 }
 
 export function createPass({
 	name = [],
 	beforeEach = [],
 	afterEach = [],
+	fixtures = [],
 	filename = undefined,
 	mark = undefined,
+	output = undefined,
+	warnings = undefined,
+	expectedFailure = undefined,
 }: {
 	name?: string | string[],
 	beforeEach?: RunResult[] | TestCaseResult[],
 	afterEach?: RunResult[] | TestCaseResult[],
+	fixtures?: RunResult[] | TestCaseResult[],
 	filename?: string,
 	mark?: TestMarkValue,
+	output?: string,
+	warnings?: string[],
+	expectedFailure?: string,
 } = {}) {
 	if (!Array.isArray(name)) name = [ name ];
 	return TestCaseResult.create({
 		mark,
 		beforeEach: beforeEach.map(each => { return each instanceof RunResult ? each : each.it; }),
 		afterEach: afterEach.map(each => { return each instanceof RunResult ? each : each.it; }),
-		it: RunResult.pass({ name, filename }),
+		fixtures: fixtures.map(each => { return each instanceof RunResult ? each : each.it; }),
+		it: RunResult.pass({ name, filename, output, warnings, expectedFailure }),
 	});
 }
 
@@ -49,23 +62,28 @@ export function createFail({
 	renderError = undefined,
 	beforeEach = [],
 	afterEach = [],
+	fixtures = [],
 	filename = undefined,
 	mark = undefined,
+	output = undefined,
 }: {
 	name?: string | string[],
 	error?: unknown,
 	renderError?: () => string,
 	beforeEach?: RunResult[] | TestCaseResult[],
 	afterEach?: RunResult[] | TestCaseResult[],
+	fixtures?: RunResult[] | TestCaseResult[],
 	filename?: string,
 	mark?: TestMarkValue,
+	output?: string,
 } = {}) {
 	if (!Array.isArray(name)) name = [ name ];
 	return TestCaseResult.create({
 		mark,
 		beforeEach: beforeEach.map(each => { return each instanceof RunResult ? each : each.it; }),
 		afterEach: afterEach.map(each => { return each instanceof RunResult ? each : each.it; }),
-		it: RunResult.fail({ name, filename, error, renderError }),
+		fixtures: fixtures.map(each => { return each instanceof RunResult ? each : each.it; }),
+		it: RunResult.fail({ name, filename, error, renderError, output }),
 	});
 }
 
@@ -75,19 +93,59 @@ export function createSkip({
 	afterEach = [],
 	filename = undefined,
 	mark = undefined,
+	reason = undefined,
 }: {
 	name?: string | string[],
 	beforeEach?: RunResult[] | TestCaseResult[],
 	afterEach?: RunResult[] | TestCaseResult[],
 	filename?: string,
 	mark?: TestMarkValue,
+	reason?: string,
 } = {}) {
 	if (!Array.isArray(name)) name = [ name ];
 	return TestCaseResult.create({
 		mark,
 		beforeEach: beforeEach.map(each => { return each instanceof RunResult ? each : each.it; }),
 		afterEach: afterEach.map(each => { return each instanceof RunResult ? each : each.it; }),
-		it: RunResult.skip({ name, filename }),
+		it: RunResult.skip({ name, filename, reason }),
+	});
+}
+
+export function createNotRun({
+	name = [],
+	filename = undefined,
+	mark = undefined,
+}: {
+	name?: string | string[],
+	filename?: string,
+	mark?: TestMarkValue,
+} = {}) {
+	if (!Array.isArray(name)) name = [ name ];
+	return TestCaseResult.create({
+		mark,
+		it: RunResult.notRun({ name, filename }),
+	});
+}
+
+export function createTodo({
+	name = [],
+	beforeEach = [],
+	afterEach = [],
+	filename = undefined,
+	mark = undefined,
+}: {
+	name?: string | string[],
+	beforeEach?: RunResult[] | TestCaseResult[],
+	afterEach?: RunResult[] | TestCaseResult[],
+	filename?: string,
+	mark?: TestMarkValue,
+} = {}) {
+	if (!Array.isArray(name)) name = [ name ];
+	return TestCaseResult.create({
+		mark,
+		beforeEach: beforeEach.map(each => { return each instanceof RunResult ? each : each.it; }),
+		afterEach: afterEach.map(each => { return each instanceof RunResult ? each : each.it; }),
+		it: RunResult.todo({ name, filename }),
 	});
 }
 
@@ -98,6 +156,7 @@ export function createTimeout({
 	afterEach = [],
 	filename = undefined,
 	mark = undefined,
+	output = undefined,
 }: {
 	name?: string | string[],
 	timeout?: number,
@@ -105,12 +164,13 @@ export function createTimeout({
 	afterEach?: RunResult[] | TestCaseResult[],
 	filename?: string,
 	mark?: TestMarkValue,
+	output?: string,
 } = {}) {
 	if (!Array.isArray(name)) name = [ name ];
 	return TestCaseResult.create({
 		mark,
 		beforeEach: beforeEach.map(each => { return each instanceof RunResult ? each : each.it; }),
 		afterEach: afterEach.map(each => { return each instanceof RunResult ? each : each.it; }),
-		it: RunResult.timeout({ name, filename, timeout }),
+		it: RunResult.timeout({ name, filename, timeout, output }),
 	});
 }
\ No newline at end of file